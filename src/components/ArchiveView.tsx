@@ -0,0 +1,158 @@
+import { useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Archive, ArchiveRestore, ChevronLeft, ChevronRight, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from '@/components/ui/pagination';
+import HighlightedText from '@/components/HighlightedText';
+import { Task } from '@/lib/tasks';
+import { getPage, getPageCount, getPageItems, searchArchive, sortArchive } from '@/lib/archive';
+
+interface ArchiveViewProps {
+  archivedTasks: Task[];
+  onUnarchive: (id: number) => void;
+}
+
+const formatDate = (at: number) => format(at, "d 'de' MMM yyyy, HH:mm", { locale: ptBR });
+
+/**
+ * ARQUIVO - histórico das missões concluídas, com busca e paginação.
+ * Busca (?q=) e página (?page=) ficam na URL para poder voltar ao mesmo ponto.
+ */
+const ArchiveView = ({ archivedTasks, onUnarchive }: ArchiveViewProps) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q') ?? '';
+
+  const results = searchArchive(sortArchive(archivedTasks), query);
+  const pageCount = getPageCount(results.length);
+  // Página fora do intervalo (ex: após desarquivar o último item) cai para a mais próxima
+  const page = Math.min(Math.max(Number(searchParams.get('page')) || 1, 1), pageCount);
+  const pageTasks = getPage(results, page);
+
+  const updateParams = (q: string, newPage: number) => {
+    const params: Record<string, string> = {};
+    if (q) params.q = q;
+    if (newPage > 1) params.page = String(newPage);
+    setSearchParams(params, { replace: true });
+  };
+
+  const goToPage = (e: React.MouseEvent, newPage: number) => {
+    e.preventDefault();
+    updateParams(query, newPage);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" size={16} />
+        <Input
+          type="search"
+          value={query}
+          onChange={(e) => updateParams(e.target.value, 1)}
+          placeholder="Buscar no arquivo..."
+          className="pl-9 transition-smooth focus:ring-2 focus:ring-primary"
+          aria-label="Buscar no arquivo"
+        />
+      </div>
+
+      {pageTasks.length === 0 ? (
+        <div className="bg-card rounded-lg p-8 card-shadow text-center">
+          <Archive className="mx-auto mb-4 text-muted-foreground" size={48} />
+          <h3 className="text-lg font-medium mb-2 text-muted-foreground">
+            {archivedTasks.length === 0 ? 'O arquivo está vazio' : 'Nenhuma missão encontrada'}
+          </h3>
+          <p className="text-muted-foreground">
+            {archivedTasks.length === 0
+              ? 'Missões concluídas vêm para cá ao usar "Limpar concluídas"'
+              : 'Experimente outra busca'}
+          </p>
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground" aria-live="polite">
+            {results.length} missão(ões){query && ` para "${query}"`}
+          </p>
+          <ul role="list" className="space-y-3">
+            {pageTasks.map(task => (
+              <li key={task.id} role="listitem" className="bg-card rounded-lg p-4 card-shadow transition-smooth">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm truncate"><HighlightedText text={task.text} query={query} /></p>
+                    <p className="text-[11px] text-muted-foreground mt-0.5">
+                      {task.completedAt && `Concluída em ${formatDate(task.completedAt)} • `}
+                      Arquivada em {formatDate(task.archivedAt)}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onUnarchive(task.id)}
+                    className="h-8 gap-1 text-muted-foreground hover:text-primary transition-smooth"
+                  >
+                    <ArchiveRestore size={14} /> Desarquivar
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {pageCount > 1 && (
+        <Pagination>
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationLink
+                href="#"
+                size="default"
+                onClick={(e) => goToPage(e, Math.max(page - 1, 1))}
+                aria-disabled={page === 1}
+                aria-label="Página anterior"
+                className={`gap-1 pl-2.5 ${page === 1 ? 'pointer-events-none opacity-50' : ''}`}
+              >
+                <ChevronLeft className="h-4 w-4" /> Anterior
+              </PaginationLink>
+            </PaginationItem>
+            {getPageItems(page, pageCount).map((item, index) => (
+              <PaginationItem key={`${item}-${index}`}>
+                {item === 'ellipsis' ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink
+                    href="#"
+                    isActive={item === page}
+                    onClick={(e) => goToPage(e, item)}
+                    aria-label={`Página ${item}`}
+                  >
+                    {item}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationLink
+                href="#"
+                size="default"
+                onClick={(e) => goToPage(e, Math.min(page + 1, pageCount))}
+                aria-disabled={page === pageCount}
+                aria-label="Próxima página"
+                className={`gap-1 pr-2.5 ${page === pageCount ? 'pointer-events-none opacity-50' : ''}`}
+              >
+                Próxima <ChevronRight className="h-4 w-4" />
+              </PaginationLink>
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+};
+
+export default ArchiveView;
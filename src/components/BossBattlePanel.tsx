@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Swords, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import BossHealthBar from '@/components/BossHealthBar';
+import { Task } from '@/lib/tasks';
+import { isTrashed } from '@/lib/trash';
+import { isArchived } from '@/lib/archive';
+import {
+  BOSS_TIME_LIMIT_OPTIONS,
+  BossBattle,
+  DEFAULT_BOSS_DAYS,
+  createBossBattle,
+  getBossStatus,
+  getLinkedTasks
+} from '@/lib/boss';
+
+interface BossBattlePanelProps {
+  task: Task;
+  tasks: Task[];          // Candidatas a missões vinculadas
+  now: number;
+  readOnly: boolean;
+  onChange: (boss?: BossBattle) => void;
+}
+
+/**
+ * BATALHA CONTRA CHEFE no painel de detalhes: transformar a missão em chefe
+ * (com prazo), vincular outras missões como golpes e acompanhar a vida.
+ */
+const BossBattlePanel = ({ task, tasks, now, readOnly, onChange }: BossBattlePanelProps) => {
+  const [days, setDays] = useState(DEFAULT_BOSS_DAYS);
+  const status = getBossStatus(task, tasks, now);
+
+  if (!task.boss || !status) {
+    if (readOnly || task.done) return null;
+    return (
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="h-9 w-[130px] text-sm" aria-label="Prazo da batalha">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BOSS_TIME_LIMIT_OPTIONS.map(option => (
+              <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="button" size="sm" variant="outline" className="gap-1" onClick={() => onChange(createBossBattle(days))}>
+          <Swords size={14} /> Transformar em chefe
+        </Button>
+      </div>
+    );
+  }
+
+  const boss = task.boss;
+  const linked = getLinkedTasks(task, tasks);
+  const candidates = tasks.filter(candidate =>
+    candidate.id !== task.id &&
+    !candidate.boss &&
+    !candidate.done &&
+    !isTrashed(candidate) &&
+    !isArchived(candidate) &&
+    !boss.linkedIds?.includes(candidate.id)
+  );
+  const setLinkedIds = (linkedIds: number[]) => onChange({ ...boss, linkedIds });
+
+  return (
+    <div className="mt-2 space-y-3">
+      <BossHealthBar status={status} escapesAt={boss.escapesAt} now={now} />
+
+      {linked.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {linked.map(linkedTask => (
+            <li key={linkedTask.id} className="flex items-center gap-2">
+              <span className={`flex-1 truncate ${linkedTask.done ? 'line-through text-muted-foreground' : ''}`}>
+                {linkedTask.done ? '✓' : '○'} {linkedTask.text}
+              </span>
+              {!readOnly && !status.defeated && (
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6 text-muted-foreground hover:text-destructive"
+                  onClick={() => setLinkedIds((boss.linkedIds ?? []).filter(id => id !== linkedTask.id))}
+                  aria-label={`Desvincular "${linkedTask.text}"`}
+                >
+                  <X size={12} />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!readOnly && !status.defeated && (
+        <div className="flex flex-wrap items-center gap-2">
+          {!status.escaped && candidates.length > 0 && (
+            <Select value="" onValueChange={(value) => setLinkedIds([...(boss.linkedIds ?? []), Number(value)])}>
+              <SelectTrigger className="h-9 flex-1 min-w-[180px] text-sm" aria-label="Vincular missão">
+                <SelectValue placeholder="Vincular missão como golpe..." />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map(candidate => (
+                  <SelectItem key={candidate.id} value={String(candidate.id)}>{candidate.text}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button type="button" size="sm" variant="ghost" onClick={() => onChange(undefined)}>
+            {status.escaped ? 'Desistir do chefe' : 'Deixar de ser chefe'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BossBattlePanel;
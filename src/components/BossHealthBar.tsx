@@ -0,0 +1,49 @@
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { BossStatus } from '@/lib/boss';
+
+interface BossHealthBarProps {
+  status: BossStatus;
+  escapesAt: number;
+  now: number;
+}
+
+// Vida do chefe e o tempo até ele fugir (ver lib/boss)
+const BossHealthBar = ({ status, escapesAt, now }: BossHealthBarProps) => {
+  const { hp, maxHp, hits, totalHits, defeated, escaped } = status;
+  const ratio = maxHp > 0 ? hp / maxHp : 1;
+
+  return (
+    <div className="mt-2">
+      <div className="flex justify-between items-center gap-2 text-[11px] mb-1">
+        <span className="font-medium">
+          👹 {defeated ? 'Chefe derrotado! 🏆' : escaped ? 'O chefe fugiu' : `Chefe • HP ${hp}/${maxHp}`}
+        </span>
+        <span className={escaped ? 'text-destructive font-medium' : 'text-muted-foreground'}>
+          {defeated
+            ? `${hits} golpes`
+            : escaped
+              ? 'Tempo esgotado'
+              : totalHits === 0
+                ? 'Adicione sub-missões ou vincule missões'
+                : `Foge ${formatDistanceToNow(escapesAt, { locale: ptBR, addSuffix: true })}`}
+        </span>
+      </div>
+      <div
+        className="w-full bg-muted rounded-full h-1.5"
+        role="progressbar"
+        aria-label="Vida do chefe"
+        aria-valuemin={0}
+        aria-valuemax={maxHp}
+        aria-valuenow={hp}
+      >
+        <div
+          className={`h-1.5 rounded-full transition-smooth ${escaped ? 'bg-muted-foreground' : 'bg-destructive'}`}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default BossHealthBar;
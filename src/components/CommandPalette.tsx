@@ -0,0 +1,266 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTheme } from 'next-themes';
+import {
+  Archive,
+  ArrowLeft,
+  CheckCircle2,
+  Circle,
+  Download,
+  Eraser,
+  ListFilter,
+  Sparkles,
+  ListTodo,
+  Moon,
+  Navigation,
+  Pencil,
+  Plus,
+  Redo2,
+  Sun,
+  Trash2,
+  Trophy,
+  Undo2,
+  User,
+} from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { Filter, Task } from '@/lib/tasks';
+import { MissionList, getListPath } from '@/lib/lists';
+import { SmartList } from '@/lib/query';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tasks: Task[];              // Missões ativas de todas as listas
+  lists: MissionList[];
+  smartLists: SmartList[];
+  getTaskListName: (task: Task) => string;
+  onJumpTo: (id: number) => void;
+  onToggle: (id: number) => void;
+  onEdit: (id: number) => void;
+  onDelete: (id: number) => void;
+  onNewTask: () => void;
+  onFilter: (filter: Filter) => void;
+  onApplySmartList: (smartList: SmartList) => void;
+  onClearCompleted: () => void;
+  onExport: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// ⌘ no macOS, Ctrl nos demais sistemas
+const MOD = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘' : 'Ctrl+';
+
+const FILTER_COMMANDS: { key: Filter; label: string }[] = [
+  { key: 'all', label: 'Mostrar todas' },
+  { key: 'pending', label: 'Mostrar pendentes' },
+  { key: 'completed', label: 'Mostrar concluídas' },
+  { key: 'overdue', label: 'Mostrar atrasadas' }
+];
+
+/**
+ * PALETA DE COMANDOS (Ctrl/Cmd+K)
+ *
+ * A busca do cmdk é aproximada: "rvsr pr" encontra "Revisar PR".
+ * Escolher uma missão abre um segundo nível com as ações dela;
+ * Backspace com a busca vazia volta para a lista principal.
+ */
+const CommandPalette = ({
+  open,
+  onOpenChange,
+  tasks,
+  lists,
+  smartLists,
+  getTaskListName,
+  onJumpTo,
+  onToggle,
+  onEdit,
+  onDelete,
+  onNewTask,
+  onFilter,
+  onApplySmartList,
+  onClearCompleted,
+  onExport,
+  onUndo,
+  onRedo
+}: CommandPaletteProps) => {
+  const navigate = useNavigate();
+  const { theme, setTheme } = useTheme();
+  const [search, setSearch] = useState('');
+  const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null);
+  const selectedTask = tasks.find(task => task.id === selectedTaskId);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    onOpenChange(nextOpen);
+    if (!nextOpen) {
+      setSearch('');
+      setSelectedTaskId(null);
+    }
+  };
+
+  // Fecha a paleta antes de executar, para o foco poder ir para a tela
+  const run = (action: () => void) => {
+    handleOpenChange(false);
+    action();
+  };
+
+  const selectTask = (id: number) => {
+    setSelectedTaskId(id);
+    setSearch('');
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={handleOpenChange}>
+      <CommandInput
+        value={search}
+        onValueChange={setSearch}
+        placeholder={selectedTask ? `Ação para "${selectedTask.text}"...` : 'Buscar missões e comandos...'}
+        onKeyDown={(e) => {
+          if (e.key === 'Backspace' && !search && selectedTask) {
+            e.preventDefault();
+            setSelectedTaskId(null);
+          }
+        }}
+      />
+      <CommandList>
+        <CommandEmpty>Nada encontrado.</CommandEmpty>
+
+        {selectedTask ? (
+          <CommandGroup heading={selectedTask.text}>
+            <CommandItem onSelect={() => run(() => onJumpTo(selectedTask.id))}>
+              <Navigation className="mr-2" /> Ir para a missão
+            </CommandItem>
+            <CommandItem onSelect={() => run(() => onToggle(selectedTask.id))}>
+              {selectedTask.done ? <Circle className="mr-2" /> : <CheckCircle2 className="mr-2" />}
+              {selectedTask.done ? 'Reativar' : 'Concluir'}
+            </CommandItem>
+            <CommandItem onSelect={() => run(() => onEdit(selectedTask.id))}>
+              <Pencil className="mr-2" /> Editar texto
+            </CommandItem>
+            <CommandItem onSelect={() => run(() => onDelete(selectedTask.id))}>
+              <Trash2 className="mr-2" /> Mover para a lixeira
+            </CommandItem>
+            <CommandItem onSelect={() => setSelectedTaskId(null)}>
+              <ArrowLeft className="mr-2" /> Voltar
+              <CommandShortcut>⌫</CommandShortcut>
+            </CommandItem>
+          </CommandGroup>
+        ) : (
+          <>
+            <CommandGroup heading="Missões">
+              {tasks.map(task => (
+                <CommandItem
+                  key={task.id}
+                  // Id no valor evita que missões com o mesmo texto se confundam
+                  value={`${task.text} ${task.id}`}
+                  keywords={[getTaskListName(task)]}
+                  onSelect={() => selectTask(task.id)}
+                >
+                  {task.done ? <CheckCircle2 className="mr-2 text-green-400" /> : <Circle className="mr-2" />}
+                  <span className={`truncate ${task.done ? 'line-through text-muted-foreground' : ''}`}>{task.text}</span>
+                  <CommandShortcut className="tracking-normal">{getTaskListName(task)}</CommandShortcut>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+
+            <CommandSeparator />
+            <CommandGroup heading="Ações">
+              <CommandItem onSelect={() => run(onNewTask)}>
+                <Plus className="mr-2" /> Nova missão
+                <CommandShortcut>N</CommandShortcut>
+              </CommandItem>
+              <CommandItem onSelect={() => run(onUndo)}>
+                <Undo2 className="mr-2" /> Desfazer
+                <CommandShortcut>{MOD}Z</CommandShortcut>
+              </CommandItem>
+              <CommandItem onSelect={() => run(onRedo)}>
+                <Redo2 className="mr-2" /> Refazer
+                <CommandShortcut>{MOD}⇧Z</CommandShortcut>
+              </CommandItem>
+              <CommandItem onSelect={() => run(onClearCompleted)}>
+                <Eraser className="mr-2" /> Limpar concluídas
+              </CommandItem>
+              <CommandItem onSelect={() => run(onExport)}>
+                <Download className="mr-2" /> Exportar missões (JSON)
+              </CommandItem>
+              <CommandItem onSelect={() => run(() => setTheme(theme === 'light' ? 'dark' : 'light'))}>
+                {theme === 'light' ? <Moon className="mr-2" /> : <Sun className="mr-2" />}
+                Mudar para o tema {theme === 'light' ? 'escuro' : 'claro'}
+              </CommandItem>
+            </CommandGroup>
+
+            <CommandSeparator />
+            <CommandGroup heading="Filtros">
+              {FILTER_COMMANDS.map(({ key, label }, index) => (
+                <CommandItem key={key} onSelect={() => run(() => onFilter(key))}>
+                  <ListFilter className="mr-2" /> {label}
+                  <CommandShortcut>Alt+{index + 1}</CommandShortcut>
+                </CommandItem>
+              ))}
+              {smartLists.map(smartList => (
+                <CommandItem
+                  key={smartList.id}
+                  value={`lista inteligente ${smartList.name} ${smartList.id}`}
+                  onSelect={() => run(() => onApplySmartList(smartList))}
+                >
+                  <Sparkles className="mr-2" /> {smartList.name}
+                  <CommandShortcut className="max-w-[40%] truncate tracking-normal">{smartList.query}</CommandShortcut>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+
+            <CommandSeparator />
+            <CommandGroup heading="Ir para">
+              {lists.map(list => (
+                <CommandItem key={list.id} value={`lista ${list.name} ${list.id}`} onSelect={() => run(() => navigate(getListPath(list.id)))}>
+                  <ListTodo className="mr-2" /> {list.name}
+                </CommandItem>
+              ))}
+              <CommandItem onSelect={() => run(() => navigate('/archive'))}>
+                <Archive className="mr-2" /> Arquivo
+              </CommandItem>
+              <CommandItem onSelect={() => run(() => navigate('/trash'))}>
+                <Trash2 className="mr-2" /> Lixeira
+              </CommandItem>
+              <CommandItem onSelect={() => run(() => navigate('/trophies'))}>
+                <Trophy className="mr-2" /> Troféus
+              </CommandItem>
+              <CommandItem onSelect={() => run(() => navigate('/profile'))}>
+                <User className="mr-2" /> Perfil do herói
+              </CommandItem>
+            </CommandGroup>
+
+            <CommandSeparator />
+            <CommandGroup heading="Atalhos de teclado">
+              <CommandItem disabled value="atalho paleta de comandos">
+                Abrir esta paleta <CommandShortcut>{MOD}K</CommandShortcut>
+              </CommandItem>
+              <CommandItem disabled value="atalho barra lateral listas">
+                Mostrar/ocultar listas <CommandShortcut>{MOD}B</CommandShortcut>
+              </CommandItem>
+              <CommandItem disabled value="atalho buscar missões">
+                Buscar missões <CommandShortcut>/</CommandShortcut>
+              </CommandItem>
+              <CommandItem disabled value="atalho mover missão reordenar">
+                Mover missão na ordem manual <CommandShortcut>Alt+↑/↓</CommandShortcut>
+              </CommandItem>
+              <CommandItem disabled value="atalho editar salvar cancelar">
+                Salvar / cancelar edição <CommandShortcut>Enter / Esc</CommandShortcut>
+              </CommandItem>
+            </CommandGroup>
+          </>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
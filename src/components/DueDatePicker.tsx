@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CalendarDays, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatDue } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+interface DueDatePickerProps {
+  dueDate?: string;
+  dueTime?: string;
+  onChange: (dueDate?: string, dueTime?: string) => void;
+  overdue?: boolean;
+  className?: string;
+}
+
+/**
+ * Seletor de prazo (data + horário opcional) usado na barra de adição
+ * e em cada linha da lista. Sem data, o horário fica desabilitado.
+ */
+const DueDatePicker = ({ dueDate, dueTime, onChange, overdue, className }: DueDatePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const selected = dueDate ? parseISO(dueDate) : undefined;
+
+  const handleSelect = (date: Date | undefined) => {
+    if (!date) {
+      onChange(undefined, undefined);
+      return;
+    }
+    onChange(format(date, 'yyyy-MM-dd'), dueTime);
+  };
+
+  const clearDue = () => {
+    onChange(undefined, undefined);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn(
+            'transition-smooth gap-1',
+            overdue ? 'border-destructive text-destructive' : 'text-muted-foreground',
+            className
+          )}
+          aria-label={dueDate ? `Prazo: ${formatDue(dueDate, dueTime)}` : 'Definir prazo'}
+        >
+          <CalendarDays size={14} />
+          {dueDate && <span>{formatDue(dueDate, dueTime)}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="single"
+          selected={selected}
+          onSelect={handleSelect}
+          locale={ptBR}
+          initialFocus
+        />
+        <div className="flex items-center gap-2 border-t p-3">
+          <Input
+            type="time"
+            value={dueTime ?? ''}
+            disabled={!dueDate}
+            onChange={(e) => onChange(dueDate, e.target.value || undefined)}
+            className="h-8 text-sm"
+            aria-label="Horário do prazo"
+          />
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={clearDue}
+            disabled={!dueDate}
+            className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+            aria-label="Remover prazo"
+          >
+            <X size={14} />
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default DueDatePicker;
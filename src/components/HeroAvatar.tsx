@@ -0,0 +1,28 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { HeroProfile, getActiveFrame, getGeneratedAvatarStyle, getInitials } from '@/lib/profile';
+
+interface HeroAvatarProps {
+  profile: HeroProfile;
+  level: number;          // Define quais molduras estão liberadas
+  className?: string;     // Tamanho (padrão do Avatar: h-10 w-10)
+}
+
+// Imagem enviada ou, sem ela, as iniciais sobre o fundo gerado (ver lib/profile)
+const HeroAvatar = ({ profile, level, className = '' }: HeroAvatarProps) => {
+  const frame = getActiveFrame(profile, level);
+
+  return (
+    <Avatar className={`ring-offset-2 ring-offset-background ${frame.className} ${className}`}>
+      {profile.avatar && <AvatarImage src={profile.avatar} alt={`Avatar de ${profile.name}`} className="object-cover" />}
+      <AvatarFallback
+        className="font-bold text-white"
+        style={getGeneratedAvatarStyle(profile)}
+        aria-label={`Avatar de ${profile.name}`}
+      >
+        {getInitials(profile.name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+};
+
+export default HeroAvatar;
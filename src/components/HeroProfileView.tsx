@@ -0,0 +1,206 @@
+import { useRef, useState } from 'react';
+import { Dices, ImageUp, Lock, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import HeroAvatar from '@/components/HeroAvatar';
+import { LevelInfo, getLevelTitle } from '@/lib/xp';
+import { AVATAR_FRAMES, HERO_CLASSES, HeroClassId, HeroProfile, NAME_MAX_LENGTH } from '@/lib/profile';
+
+interface HeroProfileViewProps {
+  profile: HeroProfile;
+  levelInfo: LevelInfo;
+  onChange: (profile: HeroProfile) => void;
+}
+
+const AVATAR_SIZE = 128;               // Lado da imagem guardada, em pixels
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+
+// Recorta o centro da imagem em um quadrado pequeno para caber nas configurações salvas
+const resizeImage = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const side = Math.min(image.width, image.height);
+      const canvas = document.createElement('canvas');
+      canvas.width = AVATAR_SIZE;
+      canvas.height = AVATAR_SIZE;
+      canvas.getContext('2d')?.drawImage(
+        image,
+        (image.width - side) / 2, (image.height - side) / 2, side, side,
+        0, 0, AVATAR_SIZE, AVATAR_SIZE
+      );
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Imagem inválida'));
+    };
+    image.src = url;
+  });
+
+/**
+ * PERFIL DO HERÓI - nome, avatar, classe e moldura (ver lib/profile).
+ * Cada escolha é salva na hora; o nome, ao sair do campo ou com Enter.
+ */
+const HeroProfileView = ({ profile, levelInfo, onChange }: HeroProfileViewProps) => {
+  const [name, setName] = useState(profile.name);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { level } = levelInfo;
+
+  const saveName = () => {
+    const trimmed = name.trim().replace(/\s+/g, ' ');
+    if (!trimmed) {
+      setName(profile.name);
+      return;
+    }
+    setName(trimmed);
+    if (trimmed !== profile.name) onChange({ ...profile, name: trimmed });
+  };
+
+  const uploadAvatar = async (file?: File) => {
+    if (!file) return;
+    if (!file.type.startsWith('image/') || file.size > MAX_UPLOAD_BYTES) {
+      toast.error('Escolha uma imagem de até 5 MB');
+      return;
+    }
+    try {
+      onChange({ ...profile, avatar: await resizeImage(file) });
+    } catch (error) {
+      console.error('Error reading avatar:', error);
+      toast.error('Não foi possível ler a imagem');
+    }
+  };
+
+  const removeAvatar = () => {
+    const { avatar: _avatar, ...rest } = profile;
+    onChange(rest);
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-card rounded-lg p-4 card-shadow flex flex-col sm:flex-row items-center gap-4">
+        <HeroAvatar profile={profile} level={level} className="h-24 w-24 text-2xl" />
+        <div className="flex-1 w-full space-y-3">
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveName();
+            }}
+            className="space-y-1"
+          >
+            <Label htmlFor="hero-name">Nome do herói</Label>
+            <Input
+              id="hero-name"
+              value={name}
+              maxLength={NAME_MAX_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={saveName}
+            />
+          </form>
+          <p className="text-sm text-muted-foreground">
+            Nível {level} • {getLevelTitle(level)}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" className="gap-1" onClick={() => fileInputRef.current?.click()}>
+              <ImageUp size={14} /> Enviar imagem
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                uploadAvatar(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            {profile.avatar ? (
+              <Button size="sm" variant="ghost" className="gap-1" onClick={removeAvatar}>
+                <X size={14} /> Usar avatar gerado
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="gap-1"
+                onClick={() => onChange({ ...profile, avatarSeed: profile.avatarSeed + 1 })}
+              >
+                <Dices size={14} /> Gerar outro
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">A imagem fica salva apenas neste navegador.</p>
+        </div>
+      </section>
+
+      <section className="bg-card rounded-lg p-4 card-shadow space-y-3">
+        <h2 className="font-medium">Classe</h2>
+        <p className="text-sm text-muted-foreground">
+          O bônus vale para as próximas conclusões; o XP já ganho não muda.
+        </p>
+        <RadioGroup
+          value={profile.heroClass ?? ''}
+          onValueChange={(value) => onChange({ ...profile, heroClass: value as HeroClassId })}
+          className="grid gap-2 sm:grid-cols-2"
+        >
+          {HERO_CLASSES.map(heroClass => (
+            <Label
+              key={heroClass.id}
+              htmlFor={`hero-class-${heroClass.id}`}
+              className={`flex items-start gap-3 rounded-md border p-3 cursor-pointer transition-smooth hover:border-primary ${
+                profile.heroClass === heroClass.id ? 'border-primary' : ''
+              }`}
+            >
+              <RadioGroupItem id={`hero-class-${heroClass.id}`} value={heroClass.id} className="mt-0.5" />
+              <span>
+                <span className="font-medium">{heroClass.icon} {heroClass.name}</span>
+                <span className="block text-xs font-normal text-muted-foreground">{heroClass.description}</span>
+              </span>
+            </Label>
+          ))}
+        </RadioGroup>
+      </section>
+
+      <section className="bg-card rounded-lg p-4 card-shadow space-y-3">
+        <h2 className="font-medium">Moldura do avatar</h2>
+        <p className="text-sm text-muted-foreground">Novas molduras são liberadas ao subir de nível.</p>
+        <ul className="grid grid-cols-3 sm:grid-cols-6 gap-3">
+          {AVATAR_FRAMES.map(frame => {
+            const locked = frame.level > level;
+            const selected = profile.frame === frame.id && !locked;
+            return (
+              <li key={frame.id}>
+                <button
+                  type="button"
+                  disabled={locked}
+                  onClick={() => onChange({ ...profile, frame: frame.id })}
+                  aria-pressed={selected}
+                  className={`w-full flex flex-col items-center gap-2 rounded-md border p-2 text-xs transition-smooth disabled:cursor-not-allowed disabled:opacity-50 ${
+                    selected ? 'border-primary' : 'hover:border-primary'
+                  }`}
+                >
+                  <HeroAvatar
+                    profile={{ ...profile, frame: frame.id }}
+                    level={frame.level}
+                    className="h-10 w-10 text-xs"
+                  />
+                  <span className="flex items-center gap-1">
+                    {locked && <Lock size={10} />}
+                    {locked ? `Nv. ${frame.level}` : frame.name}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </div>
+  );
+};
+
+export default HeroProfileView;
@@ -0,0 +1,55 @@
+import { Link } from 'react-router-dom';
+import HeroAvatar from '@/components/HeroAvatar';
+import { LevelInfo, getLevelTitle } from '@/lib/xp';
+import { HeroProfile, getHeroClass } from '@/lib/profile';
+
+interface HeroStatusProps {
+  profile: HeroProfile;
+  levelInfo: LevelInfo;
+}
+
+// Avatar, nível do herói e barra de XP até o próximo nível (ver lib/xp); leva ao perfil
+const HeroStatus = ({ profile, levelInfo }: HeroStatusProps) => {
+  const { level, xp, nextLevelXp, progress } = levelInfo;
+  const heroClass = getHeroClass(profile.heroClass);
+
+  return (
+    <div className="max-w-xs mx-auto mt-4 flex items-center gap-3">
+      <Link to="/profile" aria-label="Abrir perfil do herói" className="rounded-full">
+        <HeroAvatar profile={profile} level={level} />
+      </Link>
+      <div className="flex-1 min-w-0 text-left">
+        <div className="flex justify-between items-center mb-1 text-sm gap-2">
+          <span className="flex items-center gap-2 min-w-0">
+            <span className="hero-gradient text-primary-foreground rounded-full px-2 py-0.5 text-xs font-bold shrink-0">
+              Nv. {level}
+            </span>
+            <Link to="/profile" className="font-medium truncate hover:underline">
+              {profile.name}
+            </Link>
+          </span>
+          <span className="text-xs text-muted-foreground shrink-0">{xp} / {nextLevelXp} XP</span>
+        </div>
+        <div
+          className="w-full bg-muted rounded-full h-2"
+          role="progressbar"
+          aria-label={`Experiência do nível ${level}`}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(progress * 100)}
+        >
+          <div
+            className="hero-gradient h-2 rounded-full transition-smooth"
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+        <p className="mt-1 text-xs text-muted-foreground truncate">
+          {getLevelTitle(level)}
+          {heroClass && ` • ${heroClass.icon} ${heroClass.name}`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default HeroStatus;
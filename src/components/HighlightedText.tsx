@@ -0,0 +1,23 @@
+import { getHighlightSegments } from '@/lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+// Destaca no texto os trechos que casam com a busca (ignorando acentos)
+const HighlightedText = ({ text, query }: HighlightedTextProps) => {
+  return (
+    <>
+      {getHighlightSegments(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="search-highlight">{segment.text}</mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
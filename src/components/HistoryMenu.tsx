@@ -0,0 +1,81 @@
+import { History as HistoryIcon } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { History, HISTORY_DEPTH_OPTIONS } from '@/lib/history';
+
+interface HistoryMenuProps {
+  history: History;
+  depth: number;
+  onDepthChange: (depth: number) => void;
+  onClear: () => void;
+}
+
+// Quantas ações recentes aparecem na lista do menu
+const VISIBLE_ENTRIES = 8;
+
+const HistoryMenu = ({ history, depth, onDepthChange, onClear }: HistoryMenuProps) => {
+  const recent = history.past.slice(-VISIBLE_ENTRIES).reverse();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="icon"
+          variant="outline"
+          className="h-9 w-9 text-muted-foreground hover:text-primary transition-smooth"
+          aria-label="Histórico de ações"
+        >
+          <HistoryIcon size={14} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Histórico ({history.past.length} ações)</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {recent.length === 0 ? (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">Nenhuma ação registrada</p>
+        ) : (
+          recent.map(entry => (
+            <div key={entry.id} className="flex justify-between gap-2 px-2 py-1 text-xs">
+              <span className="truncate">{entry.label}</span>
+              <span className="text-muted-foreground shrink-0">
+                {formatDistanceToNow(entry.at, { locale: ptBR, addSuffix: true })}
+              </span>
+            </div>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          Guardar até
+        </DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={String(depth)} onValueChange={(value) => onDepthChange(Number(value))}>
+          {HISTORY_DEPTH_OPTIONS.map(option => (
+            <DropdownMenuRadioItem key={option} value={String(option)} className="text-xs">
+              {option} ações
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          onSelect={onClear}
+          disabled={history.past.length === 0 && history.future.length === 0}
+          className="text-xs text-destructive focus:text-destructive"
+        >
+          Limpar histórico
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default HistoryMenu;
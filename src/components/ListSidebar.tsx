@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { NavLink } from 'react-router-dom';
+import { ArrowDown, ArrowUp, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from '@/components/ui/sidebar';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { DEFAULT_LIST_ID, MissionList, getListPath } from '@/lib/lists';
+
+interface ListSidebarProps {
+  lists: MissionList[];
+  activeListId: number | null;  // null fora das listas (arquivo, lixeira)
+  counts: Record<number, { pending: number; total: number }>;
+  onCreate: (name: string) => void;
+  onRename: (id: number, name: string) => void;
+  onDelete: (id: number) => void;
+  onMove: (id: number, direction: -1 | 1) => void;
+  linkSearch: string;           // Filtro e ordenação que acompanham a troca de lista
+}
+
+const ListSidebar = ({ lists, activeListId, counts, onCreate, onRename, onDelete, onMove, linkSearch }: ListSidebarProps) => {
+  const { isMobile, setOpenMobile } = useSidebar();
+  const [creating, setCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<number | null>(null);
+  const [renameText, setRenameText] = useState('');
+  const [listPendingDelete, setListPendingDelete] = useState<MissionList | null>(null);
+
+  const submitCreate = () => {
+    if (newName.trim()) onCreate(newName);
+    setCreating(false);
+    setNewName('');
+  };
+
+  const submitRename = () => {
+    if (renamingId !== null && renameText.trim()) onRename(renamingId, renameText);
+    setRenamingId(null);
+    setRenameText('');
+  };
+
+  const confirmDelete = () => {
+    if (listPendingDelete) onDelete(listPendingDelete.id);
+    setListPendingDelete(null);
+  };
+
+  const pendingDeleteTotal = listPendingDelete ? counts[listPendingDelete.id]?.total ?? 0 : 0;
+
+  return (
+    <Sidebar>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Campanhas</SidebarGroupLabel>
+          <SidebarGroupAction onClick={() => setCreating(true)} aria-label="Nova lista" title="Nova lista">
+            <Plus />
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {lists.map((list, index) => (
+                <SidebarMenuItem key={list.id}>
+                  {renamingId === list.id ? (
+                    <SidebarInput
+                      autoFocus
+                      value={renameText}
+                      onChange={(e) => setRenameText(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') submitRename();
+                        else if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      onBlur={submitRename}
+                      aria-label={`Novo nome para ${list.name}`}
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton asChild isActive={activeListId === list.id}>
+                        <NavLink to={{ pathname: getListPath(list.id), search: linkSearch }} onClick={() => isMobile && setOpenMobile(false)}>
+                          <span className="truncate">{list.name}</span>
+                        </NavLink>
+                      </SidebarMenuButton>
+                      {(counts[list.id]?.pending ?? 0) > 0 && (
+                        <SidebarMenuBadge className="right-7">{counts[list.id].pending}</SidebarMenuBadge>
+                      )}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover aria-label={`Opções da lista ${list.name}`}>
+                            <MoreHorizontal />
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent
+                          side="right"
+                          align="start"
+                          // Não devolve o foco ao gatilho: o campo de renomear precisa mantê-lo
+                          onCloseAutoFocus={(e) => e.preventDefault()}
+                        >
+                          <DropdownMenuItem
+                            onSelect={() => {
+                              setRenamingId(list.id);
+                              setRenameText(list.name);
+                            }}
+                          >
+                            <Pencil className="mr-2 h-4 w-4" /> Renomear
+                          </DropdownMenuItem>
+                          <DropdownMenuItem disabled={index === 0} onSelect={() => onMove(list.id, -1)}>
+                            <ArrowUp className="mr-2 h-4 w-4" /> Mover para cima
+                          </DropdownMenuItem>
+                          <DropdownMenuItem disabled={index === lists.length - 1} onSelect={() => onMove(list.id, 1)}>
+                            <ArrowDown className="mr-2 h-4 w-4" /> Mover para baixo
+                          </DropdownMenuItem>
+                          {list.id !== DEFAULT_LIST_ID && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                onSelect={() => setListPendingDelete(list)}
+                                className="text-destructive focus:text-destructive"
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" /> Excluir lista
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+              {creating && (
+                <SidebarMenuItem>
+                  <SidebarInput
+                    autoFocus
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitCreate();
+                      else if (e.key === 'Escape') setCreating(false);
+                    }}
+                    onBlur={submitCreate}
+                    placeholder="Nome da lista"
+                    aria-label="Nome da nova lista"
+                  />
+                </SidebarMenuItem>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <AlertDialog open={listPendingDelete !== null} onOpenChange={(open) => !open && setListPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir a lista "{listPendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDeleteTotal > 0
+                ? `${pendingDeleteTotal} missão(ões) desta lista irão para a lixeira, de onde podem ser restauradas.`
+                : 'A lista está vazia.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
+
+export default ListSidebar;
@@ -0,0 +1,72 @@
+import { MarkdownInline, parseMarkdown } from '@/lib/markdown';
+
+interface MarkdownNotesProps {
+  source: string;
+}
+
+const renderInline = (nodes: MarkdownInline[]) =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return <code key={index} className="rounded bg-muted px-1 py-0.5 font-mono text-xs">{node.text}</code>;
+      case 'link':
+        return (
+          <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+            {renderInline(node.children)}
+          </a>
+        );
+      default:
+        return node.text;
+    }
+  });
+
+const HEADING_CLASSES = ['text-lg font-semibold', 'text-base font-semibold', 'text-sm font-semibold'];
+
+// Anotações em markdown já convertidas em elementos React (ver lib/markdown)
+const MarkdownNotes = ({ source }: MarkdownNotesProps) => {
+  const blocks = parseMarkdown(source);
+  if (blocks.length === 0) {
+    return <p className="text-sm text-muted-foreground">Sem anotações.</p>;
+  }
+
+  return (
+    <div className="space-y-2 text-sm leading-relaxed break-words">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const Heading = `h${block.level + 2}` as 'h3' | 'h4' | 'h5';
+            return <Heading key={index} className={HEADING_CLASSES[block.level - 1]}>{renderInline(block.children)}</Heading>;
+          }
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+              </List>
+            );
+          }
+          case 'quote':
+            return (
+              <blockquote key={index} className="border-l-2 border-primary/50 pl-3 text-muted-foreground">
+                {renderInline(block.children)}
+              </blockquote>
+            );
+          case 'code':
+            return (
+              <pre key={index} className="overflow-x-auto rounded bg-muted p-2 font-mono text-xs">
+                <code>{block.text}</code>
+              </pre>
+            );
+          default:
+            return <p key={index}>{renderInline(block.children)}</p>;
+        }
+      })}
+    </div>
+  );
+};
+
+export default MarkdownNotes;
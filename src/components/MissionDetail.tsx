@@ -0,0 +1,395 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CheckCircle2, Circle, Link2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Drawer, DrawerContent, DrawerDescription, DrawerHeader, DrawerTitle } from '@/components/ui/drawer';
+import DueDatePicker from '@/components/DueDatePicker';
+import RecurrencePicker from '@/components/RecurrencePicker';
+import TagBadge from '@/components/TagBadge';
+import TagPicker from '@/components/TagPicker';
+import SubtaskList from '@/components/SubtaskList';
+import MarkdownNotes from '@/components/MarkdownNotes';
+import BossBattlePanel from '@/components/BossBattlePanel';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { PRIORITY_OPTIONS, Priority, Task, isOverdue } from '@/lib/tasks';
+import { Tag } from '@/lib/tags';
+import { MissionList, getListId } from '@/lib/lists';
+import { describeRecurrence } from '@/lib/recurrence';
+import { isTrashed } from '@/lib/trash';
+import { isArchived } from '@/lib/archive';
+import { TaskDetails, TaskDetailsSchema, getTaskDetails } from '@/lib/task-details';
+import { BossBattle } from '@/lib/boss';
+
+interface MissionDetailProps {
+  task?: Task;          // Ausente quando o id da URL não existe
+  open: boolean;
+  tasks: Task[];        // Todas as missões (vínculos da batalha contra chefe)
+  lists: MissionList[];
+  tags: Tag[];
+  now: number;
+  onClose: () => void;
+  onToggle: (id: number) => void;
+  onSave: (id: number, details: TaskDetails) => void;
+  onManageTags: () => void;
+  onAddSubtask: (id: number, text: string) => void;
+  onToggleSubtask: (id: number, subtaskId: number) => void;
+  onDeleteSubtask: (id: number, subtaskId: number) => void;
+  onAutoCompleteChange: (id: number, autoComplete: boolean) => void;
+  onBossChange: (id: number, boss?: BossBattle) => void;
+}
+
+type MissionDetailFormProps = Omit<MissionDetailProps, 'task' | 'open' | 'onClose'> & { task: Task };
+
+const formatDateTime = (at: number) => format(at, "d 'de' MMM 'de' yyyy, HH:mm", { locale: ptBR });
+
+const getStatusLabel = (task: Task, now: number): string => {
+  if (isTrashed(task)) return 'Na lixeira';
+  if (isArchived(task)) return 'Arquivada';
+  if (task.done) return 'Concluída';
+  return isOverdue(task, now) ? 'Atrasada' : 'Pendente';
+};
+
+// Formulário de uma missão; recriado (key) ao trocar de missão
+const MissionDetailForm = ({
+  task,
+  tasks,
+  lists,
+  tags,
+  now,
+  onToggle,
+  onSave,
+  onManageTags,
+  onAddSubtask,
+  onToggleSubtask,
+  onDeleteSubtask,
+  onAutoCompleteChange,
+  onBossChange
+}: MissionDetailFormProps) => {
+  // Campos não editados acompanham mudanças feitas fora do painel (outra aba, desfazer)
+  const form = useForm<TaskDetails>({
+    resolver: zodResolver(TaskDetailsSchema),
+    values: getTaskDetails(task, lists),
+    resetOptions: { keepDirtyValues: true }
+  });
+  const readOnly = isTrashed(task) || isArchived(task);
+  const selectedTagIds = form.watch('tagIds');
+
+  const submit = (details: TaskDetails) => {
+    onSave(task.id, details);
+    form.reset(details);
+    toast.success('Missão atualizada');
+  };
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => toast.success('Link da missão copiado'))
+      .catch(() => toast.error('Não foi possível copiar o link'));
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(submit)} className="mt-4 space-y-5">
+        {readOnly && (
+          <p className="rounded-md bg-muted p-3 text-sm text-muted-foreground">
+            Missões {isTrashed(task) ? 'na lixeira' : 'arquivadas'} não podem ser editadas. Restaure-a para alterar.
+          </p>
+        )}
+
+        <fieldset disabled={readOnly} className="space-y-5">
+          <FormField
+            control={form.control}
+            name="text"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Título</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="notes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Anotações</FormLabel>
+                <Tabs defaultValue={field.value ? 'preview' : 'write'}>
+                  <TabsList className="h-8">
+                    <TabsTrigger value="write" className="text-xs">Escrever</TabsTrigger>
+                    <TabsTrigger value="preview" className="text-xs">Visualizar</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="write">
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        rows={8}
+                        placeholder="Detalhes, links, passos... (**negrito**, - listas, [link](https://...))"
+                        className="font-mono text-xs"
+                      />
+                    </FormControl>
+                  </TabsContent>
+                  <TabsContent value="preview" className="min-h-[8rem] rounded-md border p-3">
+                    <MarkdownNotes source={field.value} />
+                  </TabsContent>
+                </Tabs>
+                <FormDescription>Aceita markdown.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="dueTime"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Prazo</FormLabel>
+                  <div>
+                    <DueDatePicker
+                      dueDate={form.watch('dueDate')}
+                      dueTime={field.value}
+                      overdue={!task.done && isOverdue({ ...task, dueDate: form.watch('dueDate'), dueTime: field.value }, now)}
+                      onChange={(dueDate, dueTime) => {
+                        form.setValue('dueDate', dueDate, { shouldDirty: true });
+                        field.onChange(dueTime);
+                      }}
+                      className="h-9 px-2 border"
+                    />
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="priority"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Prioridade</FormLabel>
+                  <Select value={field.value} onValueChange={(value) => field.onChange(value as Priority)}>
+                    <FormControl>
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {PRIORITY_OPTIONS.map(({ key, label }) => (
+                        <SelectItem key={key} value={key}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="listId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lista</FormLabel>
+                  <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                    <FormControl>
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {lists.map(list => (
+                        <SelectItem key={list.id} value={String(list.id)}>{list.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="assignee"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Responsável</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="@nome" className="h-9" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="tagIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Etiquetas</FormLabel>
+                <div className="flex flex-wrap items-center gap-1">
+                  {tags.filter(tag => selectedTagIds.includes(tag.id)).map(tag => (
+                    <TagBadge key={tag.id} tag={tag} className="px-2 py-0 text-[10px]" />
+                  ))}
+                  <TagPicker
+                    tags={tags}
+                    selectedIds={field.value}
+                    onToggle={(tagId) => field.onChange(
+                      field.value.includes(tagId) ? field.value.filter(id => id !== tagId) : [...field.value, tagId]
+                    )}
+                    onManage={onManageTags}
+                  />
+                </div>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="recurrence"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Repetição</FormLabel>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <RecurrencePicker recurrence={field.value} onChange={field.onChange} />
+                  {field.value ? describeRecurrence(field.value) : 'Não se repete'}
+                </div>
+              </FormItem>
+            )}
+          />
+        </fieldset>
+
+        {!readOnly && (
+          <div className="flex flex-wrap gap-2">
+            <Button type="submit" disabled={!form.formState.isDirty} className="gap-1">
+              <Save size={14} /> Salvar alterações
+            </Button>
+            <Button type="button" variant="outline" onClick={() => onToggle(task.id)} className="gap-1">
+              {task.done ? <Circle size={14} /> : <CheckCircle2 size={14} />}
+              {task.done ? 'Reativar' : 'Concluir'}
+            </Button>
+            <Button type="button" variant="ghost" onClick={copyLink} className="gap-1">
+              <Link2 size={14} /> Copiar link
+            </Button>
+          </div>
+        )}
+      </form>
+
+      <section className="mt-6">
+        <h3 className="text-sm font-medium">Sub-missões</h3>
+        {readOnly ? (
+          <ul className="mt-2 space-y-1 text-sm">
+            {(task.subtasks ?? []).map(sub => (
+              <li key={sub.id} className={sub.done ? 'line-through text-muted-foreground' : ''}>
+                {sub.done ? '✓' : '○'} {sub.text}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <SubtaskList
+            task={task}
+            onAdd={(text) => onAddSubtask(task.id, text)}
+            onToggle={(subtaskId) => onToggleSubtask(task.id, subtaskId)}
+            onDelete={(subtaskId) => onDeleteSubtask(task.id, subtaskId)}
+            onAutoCompleteChange={(autoComplete) => onAutoCompleteChange(task.id, autoComplete)}
+          />
+        )}
+      </section>
+
+      {(task.boss || (!readOnly && !task.done)) && (
+        <section className="mt-6">
+          <h3 className="text-sm font-medium">Batalha contra chefe</h3>
+          <p className="text-xs text-muted-foreground">
+            Cada sub-missão ou missão vinculada concluída é um golpe. Derrote o chefe antes do prazo para ganhar XP bônus.
+          </p>
+          <BossBattlePanel
+            task={task}
+            tasks={tasks}
+            now={now}
+            readOnly={readOnly}
+            onChange={(boss) => onBossChange(task.id, boss)}
+          />
+        </section>
+      )}
+
+      <dl className="mt-6 grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 border-t pt-4 text-xs text-muted-foreground">
+        <dt>Status</dt>
+        <dd className="text-foreground">{getStatusLabel(task, now)}</dd>
+        <dt>Criada em</dt>
+        <dd>{formatDateTime(task.createdAt)}</dd>
+        <dt>Atualizada em</dt>
+        <dd>{task.updatedAt ? formatDateTime(task.updatedAt) : 'Nunca alterada'}</dd>
+        {task.completedAt && (
+          <>
+            <dt>Concluída em</dt>
+            <dd>{formatDateTime(task.completedAt)}</dd>
+          </>
+        )}
+      </dl>
+    </Form>
+  );
+};
+
+/**
+ * PAINEL DE DETALHES DA MISSÃO - aberto em /missions/:id, por cima da lista
+ * da missão (ou do arquivo/lixeira, se for o caso). Lateral (Sheet) no
+ * desktop e gaveta inferior (Drawer) no celular. Fechar volta para a tela anterior.
+ */
+const MissionDetail = ({ task, open, onClose, ...formProps }: MissionDetailProps) => {
+  const isMobile = useIsMobile();
+  const Header = isMobile ? DrawerHeader : SheetHeader;
+  const Title = isMobile ? DrawerTitle : SheetTitle;
+  const Description = isMobile ? DrawerDescription : SheetDescription;
+
+  const listName = task ? formProps.lists.find(list => list.id === getListId(task, formProps.lists))?.name : '';
+  const content = task ? (
+    <>
+      <Header className="text-left">
+        <Title className={`break-words ${task.done ? 'line-through' : ''}`}>{task.text}</Title>
+        <Description>{listName}</Description>
+      </Header>
+      <MissionDetailForm key={task.id} task={task} {...formProps} />
+    </>
+  ) : (
+    <Header className="text-left">
+      <Title>Missão não encontrada</Title>
+      <Description>Ela pode ter sido excluída definitivamente.</Description>
+    </Header>
+  );
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) onClose();
+  };
+
+  if (isMobile) {
+    return (
+      <Drawer open={open} onOpenChange={handleOpenChange}>
+        <DrawerContent className="max-h-[92vh]">
+          <div className="overflow-y-auto px-4 pb-6">{content}</div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-lg">{content}</SheetContent>
+    </Sheet>
+  );
+};
+
+export default MissionDetail;
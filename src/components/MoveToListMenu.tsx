@@ -0,0 +1,48 @@
+import { FolderInput } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { MissionList } from '@/lib/lists';
+
+interface MoveToListMenuProps {
+  lists: MissionList[];
+  listId: number;
+  onMove: (listId: number) => void;
+}
+
+const MoveToListMenu = ({ lists, listId, onMove }: MoveToListMenuProps) => {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8 text-muted-foreground hover:text-primary transition-smooth"
+          aria-label="Mover para outra lista"
+        >
+          <FolderInput size={14} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Mover para</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={String(listId)} onValueChange={(value) => onMove(Number(value))}>
+          {lists.map(list => (
+            <DropdownMenuRadioItem key={list.id} value={String(list.id)}>
+              {list.name}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default MoveToListMenu;
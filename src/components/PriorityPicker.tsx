@@ -0,0 +1,60 @@
+import { Flag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Priority, PRIORITY_OPTIONS } from '@/lib/tasks';
+import { cn } from '@/lib/utils';
+
+// Cor do ícone de bandeira para cada nível
+const PRIORITY_COLORS: Record<Priority, string> = {
+  critical: 'text-red-500',
+  high: 'text-orange-400',
+  normal: 'text-muted-foreground',
+  low: 'text-sky-400/70'
+};
+
+interface PriorityPickerProps {
+  priority: Priority;
+  onChange: (priority: Priority) => void;
+  className?: string;
+}
+
+const PriorityPicker = ({ priority, onChange, className }: PriorityPickerProps) => {
+  const label = PRIORITY_OPTIONS.find(option => option.key === priority)?.label;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          className={cn('h-8 w-8 transition-smooth', PRIORITY_COLORS[priority], className)}
+          aria-label={`Prioridade: ${label}`}
+        >
+          <Flag size={14} fill={priority === 'critical' || priority === 'high' ? 'currentColor' : 'none'} />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Prioridade</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={priority} onValueChange={(value) => onChange(value as Priority)}>
+          {PRIORITY_OPTIONS.map(({ key, label }) => (
+            <DropdownMenuRadioItem key={key} value={key} className="gap-2">
+              <Flag size={12} className={PRIORITY_COLORS[key]} />
+              {label}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default PriorityPicker;
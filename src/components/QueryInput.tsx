@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Search } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { SuggestionContext, applySuggestion, getQuerySuggestions } from '@/lib/query';
+import { cn } from '@/lib/utils';
+
+interface QueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  context: SuggestionContext;
+  errors: string[];
+  inputRef?: React.RefObject<HTMLInputElement>;
+}
+
+/**
+ * CAMPO DE BUSCA E FILTROS com autocompletar (ver lib/query).
+ * ↑/↓ escolhem a sugestão, Enter ou Tab aplicam e Esc fecha a lista
+ * (ou, com ela fechada, limpa a busca).
+ */
+const QueryInput = ({ value, onChange, context, errors, inputRef }: QueryInputProps) => {
+  const [caret, setCaret] = useState(value.length);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = open ? getQuerySuggestions(value, caret, context) : [];
+  const showSuggestions = suggestions.length > 0;
+  const active = Math.min(activeIndex, suggestions.length - 1);
+
+  const accept = (index: number) => {
+    const next = applySuggestion(value, suggestions[index]);
+    onChange(next.value);
+    setCaret(next.caret);
+    setActiveIndex(0);
+    // Posiciona o cursor depois que o React atualizar o valor do campo
+    requestAnimationFrame(() => inputRef?.current?.setSelectionRange(next.caret, next.caret));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showSuggestions && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((active + step + suggestions.length) % suggestions.length);
+    } else if (showSuggestions && (e.key === 'Enter' || e.key === 'Tab')) {
+      e.preventDefault();
+      accept(active);
+    } else if (e.key === 'Escape') {
+      if (showSuggestions) setOpen(false);
+      else onChange('');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" size={16} />
+      <Input
+        ref={inputRef}
+        type="search"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart ?? e.target.value.length);
+          setOpen(true);
+          setActiveIndex(0);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart ?? value.length)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Buscar ou filtrar: status:pending tag:trabalho due:<7d... (/)"
+        className="pl-9 transition-smooth focus:ring-2 focus:ring-primary"
+        role="combobox"
+        aria-label="Buscar e filtrar missões"
+        aria-autocomplete="list"
+        aria-expanded={showSuggestions}
+        aria-controls="query-suggestions"
+        aria-activedescendant={showSuggestions ? `query-suggestion-${active}` : undefined}
+      />
+      {showSuggestions && (
+        <ul
+          id="query-suggestions"
+          role="listbox"
+          className="absolute z-20 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.label}
+              id={`query-suggestion-${index}`}
+              role="option"
+              aria-selected={index === active}
+              // mousedown evita o blur do campo antes do clique
+              onMouseDown={(e) => {
+                e.preventDefault();
+                accept(index);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                'flex cursor-pointer items-center justify-between gap-3 rounded-sm px-2 py-1.5 text-sm',
+                index === active && 'bg-accent text-accent-foreground'
+              )}
+            >
+              <span className="font-mono text-xs">{suggestion.label}</span>
+              {suggestion.description && (
+                <span className="truncate text-xs text-muted-foreground">{suggestion.description}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {errors.length > 0 && (
+        <p className="mt-1 text-xs text-destructive" role="status">{errors.join(' · ')}</p>
+      )}
+    </div>
+  );
+};
+
+export default QueryInput;
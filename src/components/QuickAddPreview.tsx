@@ -0,0 +1,57 @@
+import { CalendarDays, Flag, User } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import TagBadge from '@/components/TagBadge';
+import { PRIORITY_OPTIONS, formatDue } from '@/lib/tasks';
+import { Tag, findTagByName, normalizeTagName } from '@/lib/tags';
+import { QuickAddResult, hasQuickAddTokens } from '@/lib/quick-add';
+
+interface QuickAddPreviewProps {
+  result: QuickAddResult;
+  tags: Tag[];
+}
+
+/**
+ * PRÉVIA DA ADIÇÃO RÁPIDA - mostra, enquanto o usuário digita, o que será
+ * extraído do texto. Etiquetas que ainda não existem aparecem tracejadas
+ * (serão criadas ao adicionar).
+ */
+const QuickAddPreview = ({ result, tags }: QuickAddPreviewProps) => {
+  if (!hasQuickAddTokens(result)) return null;
+
+  const priorityLabel = PRIORITY_OPTIONS.find(option => option.key === result.priority)?.label;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-3 text-xs" aria-live="polite">
+      <span className="text-muted-foreground">
+        {result.text ? <>Título: <span className="text-foreground">{result.text}</span></> : 'Sem título'}
+      </span>
+      {result.dueDate && (
+        <Badge variant="secondary" className="gap-1 font-normal">
+          <CalendarDays size={12} /> {formatDue(result.dueDate, result.dueTime)}
+        </Badge>
+      )}
+      {priorityLabel && (
+        <Badge variant="secondary" className="gap-1 font-normal">
+          <Flag size={12} /> {priorityLabel}
+        </Badge>
+      )}
+      {result.assignee && (
+        <Badge variant="secondary" className="gap-1 font-normal">
+          <User size={12} /> {result.assignee}
+        </Badge>
+      )}
+      {result.tagNames.map(name => {
+        const tag = findTagByName(tags, name);
+        return tag ? (
+          <TagBadge key={name} tag={tag} className="px-2 py-0 text-[10px]" />
+        ) : (
+          <Badge key={name} variant="outline" className="border-dashed px-2 py-0 text-[10px] font-medium">
+            #{normalizeTagName(name)}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QuickAddPreview;
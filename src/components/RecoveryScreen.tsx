@@ -0,0 +1,96 @@
+import { AlertTriangle, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DamagedRecord } from '@/lib/storage';
+
+interface RecoveryScreenProps {
+  damaged: DamagedRecord[];
+  mode: 'load' | 'review';  // 'load': dados acabaram de ser lidos; 'review': quarentena já salva
+  validCount?: number;
+  onExport: () => void;
+  onContinue?: () => void;
+  onDiscard?: () => void;
+  onClose?: () => void;
+}
+
+// Prévia curta do conteúdo original para o usuário reconhecer o registro
+const preview = (raw: unknown) => {
+  const text = typeof raw === 'string' ? raw : JSON.stringify(raw);
+  return text && text.length > 160 ? `${text.slice(0, 160)}…` : String(text);
+};
+
+/**
+ * TELA DE RECUPERAÇÃO
+ *
+ * Exibida quando há registros danificados. No modo 'load', nada é gravado
+ * até o usuário decidir continuar — dando a chance de exportar os dados brutos antes.
+ */
+const RecoveryScreen = ({
+  damaged,
+  mode,
+  validCount = 0,
+  onExport,
+  onContinue,
+  onDiscard,
+  onClose
+}: RecoveryScreenProps) => (
+  <div className="bg-card rounded-lg p-6 card-shadow border border-destructive/40" role="alert">
+    <div className="flex items-center gap-3 mb-4">
+      <div className="p-2 rounded-lg bg-destructive/10">
+        <AlertTriangle className="w-5 h-5 text-destructive" />
+      </div>
+      <h2 className="text-lg font-semibold">
+        {mode === 'load' ? 'Encontramos dados danificados' : 'Dados em quarentena'}
+      </h2>
+    </div>
+
+    <p className="text-sm text-muted-foreground mb-4">
+      {mode === 'load'
+        ? `${damaged.length} registro(s) não puderam ser lidos${
+          validCount > 0 ? ` e ${validCount} missão(ões) estão íntegras` : ''
+        }. Nada foi sobrescrito ainda: exporte os dados brutos antes de continuar.`
+        : `${damaged.length} registro(s) danificados estão guardados separadamente e não aparecem na lista.`}
+    </p>
+
+    <div className="max-h-64 overflow-y-auto rounded-md border mb-6">
+      <ul role="list" className="divide-y">
+        {damaged.map((record, index) => (
+          <li key={index} className="p-3 space-y-1">
+            <ul className="text-xs text-destructive list-disc pl-4">
+              {record.issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+            <pre className="text-[11px] text-muted-foreground whitespace-pre-wrap break-all">
+              {preview(record.raw)}
+            </pre>
+          </li>
+        ))}
+      </ul>
+    </div>
+
+    <div className="flex flex-col-reverse sm:flex-row gap-3 sm:justify-end">
+      {mode === 'review' && (
+        <>
+          <Button variant="outline" onClick={onClose} className="transition-smooth">
+            Voltar
+          </Button>
+          <Button
+            variant="outline"
+            onClick={onDiscard}
+            className="transition-smooth hover:border-destructive hover:text-destructive"
+          >
+            Esvaziar quarentena
+          </Button>
+        </>
+      )}
+      <Button variant="outline" onClick={onExport} className="transition-smooth hover:border-primary gap-2">
+        <Download size={14} /> Exportar dados brutos
+      </Button>
+      {mode === 'load' && (
+        <Button onClick={onContinue} className="hero-gradient hover:opacity-90 transition-smooth">
+          Continuar {validCount > 0 ? `com ${validCount} missão(ões)` : 'com lista vazia'}
+        </Button>
+      )}
+    </div>
+  </div>
+);
+
+export default RecoveryScreen;
@@ -0,0 +1,138 @@
+import { Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RecurrenceRule, WEEKDAY_LABELS, describeRecurrence } from '@/lib/recurrence';
+import { cn } from '@/lib/utils';
+
+type RecurrenceType = RecurrenceRule['type'] | 'none';
+
+const TYPE_OPTIONS: { key: RecurrenceType; label: string }[] = [
+  { key: 'none', label: 'Não repetir' },
+  { key: 'daily', label: 'A cada N dias' },
+  { key: 'weekly', label: 'Dias da semana' },
+  { key: 'monthly', label: 'Todo mês' },
+  { key: 'afterCompletion', label: 'Dias após concluir' }
+];
+
+// Regra padrão ao trocar de tipo no seletor
+const defaultRule = (type: RecurrenceType): RecurrenceRule | undefined => {
+  switch (type) {
+    case 'daily':
+      return { type: 'daily', interval: 1 };
+    case 'weekly':
+      return { type: 'weekly', weekdays: [new Date().getDay()] };
+    case 'monthly':
+      return { type: 'monthly', day: new Date().getDate() };
+    case 'afterCompletion':
+      return { type: 'afterCompletion', interval: 7 };
+    default:
+      return undefined;
+  }
+};
+
+interface RecurrencePickerProps {
+  recurrence?: RecurrenceRule;
+  onChange: (recurrence?: RecurrenceRule) => void;
+}
+
+const RecurrencePicker = ({ recurrence, onChange }: RecurrencePickerProps) => {
+  const toggleWeekday = (day: number) => {
+    if (recurrence?.type !== 'weekly') return;
+    const weekdays = recurrence.weekdays.includes(day)
+      ? recurrence.weekdays.filter(d => d !== day)
+      : [...recurrence.weekdays, day];
+    // Pelo menos um dia precisa ficar marcado
+    if (weekdays.length > 0) onChange({ type: 'weekly', weekdays });
+  };
+
+  const clampNumber = (value: string, min: number, max: number) =>
+    Math.min(max, Math.max(min, parseInt(value, 10) || min));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          className={cn(
+            'h-8 w-8 transition-smooth',
+            recurrence ? 'text-primary' : 'text-muted-foreground hover:text-primary'
+          )}
+          aria-label={recurrence ? `Repetição: ${describeRecurrence(recurrence)}` : 'Definir repetição'}
+          title={recurrence ? describeRecurrence(recurrence) : undefined}
+        >
+          <Repeat size={14} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 space-y-3">
+        <p className="text-sm font-medium">Repetir missão</p>
+        <Select
+          value={recurrence?.type ?? 'none'}
+          onValueChange={(value) => onChange(defaultRule(value as RecurrenceType))}
+        >
+          <SelectTrigger className="h-8 text-sm" aria-label="Tipo de repetição">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TYPE_OPTIONS.map(({ key, label }) => (
+              <SelectItem key={key} value={key}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {(recurrence?.type === 'daily' || recurrence?.type === 'afterCompletion') && (
+          <label className="flex items-center gap-2 text-sm">
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={recurrence.interval}
+              onChange={(e) => onChange({ ...recurrence, interval: clampNumber(e.target.value, 1, 365) })}
+              className="h-8 w-20 text-sm"
+            />
+            {recurrence.type === 'daily' ? 'dia(s)' : 'dia(s) após concluir'}
+          </label>
+        )}
+
+        {recurrence?.type === 'weekly' && (
+          <div className="flex flex-wrap gap-1" role="group" aria-label="Dias da semana">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <Button
+                key={label}
+                size="sm"
+                variant={recurrence.weekdays.includes(day) ? 'default' : 'outline'}
+                onClick={() => toggleWeekday(day)}
+                aria-pressed={recurrence.weekdays.includes(day)}
+                className={cn('h-7 px-2 text-xs', recurrence.weekdays.includes(day) && 'filter-active')}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {recurrence?.type === 'monthly' && (
+          <label className="flex items-center gap-2 text-sm">
+            Dia
+            <Input
+              type="number"
+              min={1}
+              max={31}
+              value={recurrence.day}
+              onChange={(e) => onChange({ ...recurrence, day: clampNumber(e.target.value, 1, 31) })}
+              className="h-8 w-20 text-sm"
+            />
+          </label>
+        )}
+
+        {recurrence && (
+          <p className="text-xs text-muted-foreground">{describeRecurrence(recurrence)}</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default RecurrencePicker;
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { BookmarkPlus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { SmartList } from '@/lib/query';
+
+interface SmartListBarProps {
+  smartLists: SmartList[];
+  query: string;                 // Busca atual (a lista inteligente com a mesma consulta fica ativa)
+  onApply: (smartList: SmartList) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: number) => void;
+}
+
+/**
+ * LISTAS INTELIGENTES - consultas salvas, exibidas ao lado dos filtros de status.
+ * "Salvar busca" só aparece quando a busca atual ainda não foi salva.
+ */
+const SmartListBar = ({ smartLists, query, onApply, onSave, onDelete }: SmartListBarProps) => {
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const trimmedQuery = query.trim();
+  const canSave = trimmedQuery !== '' && !smartLists.some(smartList => smartList.query === trimmedQuery);
+
+  const submit = () => {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+    setSaving(false);
+  };
+
+  return (
+    <>
+      {smartLists.map(smartList => {
+        const active = smartList.query === trimmedQuery;
+        return (
+          <div key={smartList.id} className="flex items-center">
+            <Button
+              variant={active ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => onApply(smartList)}
+              title={smartList.query}
+              className={`transition-smooth ${active ? 'filter-active rounded-r-none' : 'hover:border-primary'}`}
+            >
+              {smartList.name}
+            </Button>
+            {active && (
+              <Button
+                variant="default"
+                size="sm"
+                onClick={() => onDelete(smartList.id)}
+                className="filter-active rounded-l-none border-l border-background/30 px-2"
+                aria-label={`Excluir a lista inteligente ${smartList.name}`}
+              >
+                <X size={12} />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+
+      {canSave && (
+        <Popover open={saving} onOpenChange={setSaving}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="gap-1 text-muted-foreground hover:text-primary">
+              <BookmarkPlus size={14} /> Salvar busca
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-64 space-y-2">
+            <p className="text-sm font-medium">Nova lista inteligente</p>
+            <p className="truncate font-mono text-xs text-muted-foreground" title={trimmedQuery}>{trimmedQuery}</p>
+            <Input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && submit()}
+              placeholder="Nome (ex: Urgentes da semana)"
+              className="h-8 text-sm"
+              aria-label="Nome da lista inteligente"
+            />
+            <Button size="sm" className="w-full" onClick={submit} disabled={!name.trim()}>
+              Salvar
+            </Button>
+          </PopoverContent>
+        </Popover>
+      )}
+    </>
+  );
+};
+
+export default SmartListBar;
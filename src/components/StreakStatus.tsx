@@ -0,0 +1,83 @@
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Flame, Snowflake } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { FREEZE_EVERY_DAYS, MAX_STREAK_FREEZES, StreakDayStatus, StreakInfo } from '@/lib/streaks';
+
+interface StreakStatusProps {
+  streak: StreakInfo;
+}
+
+const STATUS_CLASSES: Record<StreakDayStatus, string> = {
+  done: 'hero-gradient',
+  frozen: 'bg-sky-400/70',
+  missed: 'bg-muted',
+  pending: 'border border-dashed border-primary/60'
+};
+
+const STATUS_LABELS: Record<StreakDayStatus, string> = {
+  done: 'missões concluídas',
+  frozen: 'protegido',
+  missed: 'sem missões',
+  pending: 'ainda dá tempo'
+};
+
+// Sequência atual e recorde; o popover mostra os últimos dias e as proteções (ver lib/streaks)
+const StreakStatus = ({ streak }: StreakStatusProps) => {
+  const { current, best, freezes, activeToday, history } = streak;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 h-7 gap-1 text-sm"
+          aria-label={`Sequência de ${current} dia(s), recorde de ${best}`}
+        >
+          <Flame size={14} className={activeToday ? 'text-orange-400' : 'text-muted-foreground'} />
+          <span className="font-medium">{current} {current === 1 ? 'dia' : 'dias'}</span>
+          <span className="text-muted-foreground">• Recorde {best}</span>
+          {freezes > 0 && (
+            <span className="flex items-center gap-0.5 text-sky-400">
+              <Snowflake size={12} /> {freezes}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <div>
+          <p className="text-sm font-medium">Sequência diária</p>
+          <p className="text-xs text-muted-foreground">
+            {activeToday
+              ? 'Hoje já conta. Continue amanhã!'
+              : 'Conclua uma missão hoje para manter a sequência (o dia vira às 4h).'}
+          </p>
+        </div>
+        <ol className="grid grid-cols-7 gap-1" aria-label="Últimos dias">
+          {history.map(day => (
+            <li
+              key={day.day}
+              className={`h-6 rounded ${STATUS_CLASSES[day.status]}`}
+              title={`${format(parseISO(day.day), "EEE, d 'de' MMM", { locale: ptBR })}: ${
+                day.completed > 0 ? `${day.completed} concluída(s)` : STATUS_LABELS[day.status]
+              }`}
+            >
+              <span className="sr-only">
+                {format(parseISO(day.day), 'd/MM')}: {STATUS_LABELS[day.status]}
+              </span>
+            </li>
+          ))}
+        </ol>
+        <p className="flex items-start gap-1 text-xs text-muted-foreground">
+          <Snowflake size={12} className="mt-0.5 shrink-0 text-sky-400" />
+          {freezes}/{MAX_STREAK_FREEZES} proteções. A cada {FREEZE_EVERY_DAYS} dias seguidos você ganha uma, que
+          salva a sequência num dia sem missões.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default StreakStatus;
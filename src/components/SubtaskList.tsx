@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import HighlightedText from '@/components/HighlightedText';
+import { Task } from '@/lib/tasks';
+
+interface SubtaskListProps {
+  task: Task;
+  onAdd: (text: string) => void;
+  onToggle: (subtaskId: number) => void;
+  onDelete: (subtaskId: number) => void;
+  onAutoCompleteChange: (autoComplete: boolean) => void;
+  highlight?: string;   // Busca ativa, destacada no texto das sub-missões
+}
+
+/**
+ * Checklist de sub-missões exibido (recolhível) abaixo da linha da missão.
+ */
+const SubtaskList = ({ task, onAdd, onToggle, onDelete, onAutoCompleteChange, highlight = '' }: SubtaskListProps) => {
+  const [newSubtaskText, setNewSubtaskText] = useState('');
+  const subtasks = task.subtasks ?? [];
+
+  const handleAdd = () => {
+    if (!newSubtaskText.trim()) return;
+    onAdd(newSubtaskText);
+    setNewSubtaskText('');
+  };
+
+  return (
+    <div className="mt-3 ml-7 space-y-2 border-l border-border pl-4">
+      {subtasks.length > 0 && (
+        <ul role="list" className="space-y-1">
+          {subtasks.map(sub => (
+            <li key={sub.id} role="listitem" className="group flex items-center gap-2">
+              <Checkbox
+                checked={sub.done}
+                onCheckedChange={() => onToggle(sub.id)}
+                className="h-3.5 w-3.5 transition-fast"
+                aria-label={`Marcar sub-missão como ${sub.done ? 'pendente' : 'concluída'}`}
+              />
+              <span className={`flex-1 text-xs ${sub.done ? 'line-through text-muted-foreground' : ''}`}>
+                <HighlightedText text={sub.text} query={highlight} />
+              </span>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => onDelete(sub.id)}
+                className="h-6 w-6 text-muted-foreground opacity-0 group-hover:opacity-100 focus:opacity-100 hover:text-destructive transition-smooth"
+                aria-label="Excluir sub-missão"
+              >
+                <X size={12} />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={newSubtaskText}
+          onChange={(e) => setNewSubtaskText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="Adicionar passo..."
+          className="h-7 text-xs"
+        />
+        <Button
+          size="icon"
+          variant="ghost"
+          onClick={handleAdd}
+          disabled={!newSubtaskText.trim()}
+          className="h-7 w-7 shrink-0 text-muted-foreground hover:text-primary"
+          aria-label="Adicionar sub-missão"
+        >
+          <Plus size={14} />
+        </Button>
+      </div>
+
+      {subtasks.length > 0 && (
+        <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+          <Switch
+            checked={!!task.autoComplete}
+            onCheckedChange={onAutoCompleteChange}
+            className="scale-75 origin-left"
+          />
+          Concluir automaticamente ao terminar todos os passos
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default SubtaskList;
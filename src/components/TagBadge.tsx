@@ -0,0 +1,46 @@
+import { Badge } from '@/components/ui/badge';
+import { Tag } from '@/lib/tags';
+import { cn } from '@/lib/utils';
+
+interface TagBadgeProps {
+  tag: Tag;
+  active?: boolean;     // Em filtros: etiqueta selecionada
+  onClick?: () => void;
+  className?: string;
+}
+
+/**
+ * Etiqueta colorida. A cor do usuário vira borda e fundo translúcido,
+ * mantendo o texto legível no tema escuro.
+ */
+const TagBadge = ({ tag, active = true, onClick, className }: TagBadgeProps) => {
+  const content = (
+    <Badge
+      variant="outline"
+      className={cn('font-medium transition-smooth', !active && 'opacity-50', onClick && 'cursor-pointer', className)}
+      style={{
+        borderColor: tag.color,
+        backgroundColor: active ? `${tag.color}26` : 'transparent',
+        color: tag.color
+      }}
+    >
+      #{tag.name}
+    </Badge>
+  );
+
+  if (!onClick) return content;
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      aria-label={`Filtrar pela etiqueta ${tag.name}`}
+      className="rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+    >
+      {content}
+    </button>
+  );
+};
+
+export default TagBadge;
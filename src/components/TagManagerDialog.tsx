@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import TagBadge from '@/components/TagBadge';
+import { Tag, TAG_COLORS } from '@/lib/tags';
+import { cn } from '@/lib/utils';
+
+interface TagManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tags: Tag[];
+  tagUsage: Record<number, number>;  // Quantas missões usam cada etiqueta
+  onCreate: (name: string, color: string) => void;
+  onUpdate: (tag: Tag) => void;
+  onDelete: (id: number) => void;
+}
+
+const TagManagerDialog = ({
+  open,
+  onOpenChange,
+  tags,
+  tagUsage,
+  onCreate,
+  onUpdate,
+  onDelete
+}: TagManagerDialogProps) => {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(TAG_COLORS[0]);
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName, newColor);
+    setNewName('');
+    setNewColor(TAG_COLORS[(tags.length + 1) % TAG_COLORS.length]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="hero-gradient bg-clip-text text-transparent">
+            Gerenciar etiquetas
+          </DialogTitle>
+          <DialogDescription>
+            Agrupe missões por área. Dica: digite <code>#etiqueta</code> ao criar uma missão.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Existing tags */}
+        <ul role="list" className="space-y-2 max-h-64 overflow-y-auto">
+          {tags.length === 0 && (
+            <li className="text-sm text-muted-foreground text-center py-4">
+              Nenhuma etiqueta criada ainda
+            </li>
+          )}
+          {tags.map(tag => (
+            <li key={tag.id} className="flex items-center gap-2">
+              <input
+                type="color"
+                value={tag.color}
+                onChange={(e) => onUpdate({ ...tag, color: e.target.value })}
+                className="h-8 w-8 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0"
+                aria-label={`Cor da etiqueta ${tag.name}`}
+              />
+              <Input
+                defaultValue={tag.name}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== tag.name) onUpdate({ ...tag, name });
+                  else e.target.value = tag.name;
+                }}
+                className="h-8 text-sm"
+                aria-label={`Nome da etiqueta ${tag.name}`}
+              />
+              <span className="text-xs text-muted-foreground w-10 text-right shrink-0">
+                {tagUsage[tag.id] ?? 0}
+              </span>
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => onDelete(tag.id)}
+                className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                aria-label={`Excluir etiqueta ${tag.name}`}
+              >
+                <Trash2 size={14} />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        {/* New tag */}
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex gap-2">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder="Nova etiqueta..."
+              className="h-9 text-sm"
+            />
+            <Button size="sm" onClick={handleCreate} disabled={!newName.trim()} className="hero-gradient">
+              <Plus size={14} /> Criar
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {TAG_COLORS.map(color => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => setNewColor(color)}
+                className={cn(
+                  'h-6 w-6 rounded-full border-2 transition-fast',
+                  newColor === color ? 'border-foreground scale-110' : 'border-transparent'
+                )}
+                style={{ backgroundColor: color }}
+                aria-label={`Usar cor ${color}`}
+                aria-pressed={newColor === color}
+              />
+            ))}
+            {newName.trim() && (
+              <TagBadge tag={{ id: 0, name: newName.trim().replace(/^#/, ''), color: newColor }} className="ml-auto" />
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TagManagerDialog;
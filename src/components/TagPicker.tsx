@@ -0,0 +1,54 @@
+import { Tags } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Tag } from '@/lib/tags';
+
+interface TagPickerProps {
+  tags: Tag[];
+  selectedIds: number[];
+  onToggle: (tagId: number) => void;
+  onManage: () => void;
+}
+
+const TagPicker = ({ tags, selectedIds, onToggle, onManage }: TagPickerProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-8 w-8 text-muted-foreground hover:text-primary transition-smooth"
+        aria-label="Etiquetas da missão"
+      >
+        <Tags size={14} />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuLabel>Etiquetas</DropdownMenuLabel>
+      <DropdownMenuSeparator />
+      {tags.map(tag => (
+        <DropdownMenuCheckboxItem
+          key={tag.id}
+          checked={selectedIds.includes(tag.id)}
+          onCheckedChange={() => onToggle(tag.id)}
+          onSelect={(e) => e.preventDefault()}  // Mantém o menu aberto para marcar várias
+          className="gap-2"
+        >
+          <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+          {tag.name}
+        </DropdownMenuCheckboxItem>
+      ))}
+      {tags.length > 0 && <DropdownMenuSeparator />}
+      <DropdownMenuItem onSelect={onManage}>Gerenciar etiquetas...</DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+export default TagPicker;
@@ -1,9 +1,123 @@
 import { useState, useEffect, useRef } from 'react';
+import { Link, NavLink, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Pencil, Trash2, CheckCircle2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Pencil, Trash2, CheckCircle2, X, Tags, ListChecks, AlertTriangle, Undo2, Redo2, Archive, GripVertical, User, PanelRightOpen, Trophy } from 'lucide-react';
 import { toast } from 'sonner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DueDatePicker from '@/components/DueDatePicker';
+import PriorityPicker from '@/components/PriorityPicker';
+import TagBadge from '@/components/TagBadge';
+import TagPicker from '@/components/TagPicker';
+import TagManagerDialog from '@/components/TagManagerDialog';
+import SubtaskList from '@/components/SubtaskList';
+import RecurrencePicker from '@/components/RecurrencePicker';
+import RecoveryScreen from '@/components/RecoveryScreen';
+import HistoryMenu from '@/components/HistoryMenu';
+import TrashView from '@/components/TrashView';
+import ArchiveView from '@/components/ArchiveView';
+import ListSidebar from '@/components/ListSidebar';
+import MoveToListMenu from '@/components/MoveToListMenu';
+import QuickAddPreview from '@/components/QuickAddPreview';
+import CommandPalette from '@/components/CommandPalette';
+import HighlightedText from '@/components/HighlightedText';
+import QueryInput from '@/components/QueryInput';
+import SmartListBar from '@/components/SmartListBar';
+import MissionDetail from '@/components/MissionDetail';
+import HeroStatus from '@/components/HeroStatus';
+import StreakStatus from '@/components/StreakStatus';
+import TrophyCase from '@/components/TrophyCase';
+import HeroProfileView from '@/components/HeroProfileView';
+import BossHealthBar from '@/components/BossHealthBar';
+import {
+  Task,
+  Filter,
+  FILTERS,
+  Priority,
+  SortKey,
+  SORT_OPTIONS,
+  formatDue,
+  getPriority,
+  getSubtaskProgress,
+  getTaskCompletion,
+  isHighPriority,
+  isOverdue,
+  moveTaskTo,
+  sortTasks,
+  touchChangedTasks,
+  updateTaskDone
+} from '@/lib/tasks';
+import { RecurrenceRule, describeRecurrence } from '@/lib/recurrence';
+import {
+  DamagedRecord,
+  MigrationError,
+  MigrationResult,
+  StorageAdapter,
+  commitRecovery,
+  getStorageAdapter,
+  loadQuarantine,
+  migrateStorage,
+  saveQuarantine
+} from '@/lib/storage';
+import { downloadJson, exportFilename } from '@/lib/export';
+import { SyncMessage, applyTaskChanges, diffTasks, hasChanges } from '@/lib/sync';
+import { useCrossTabSync } from '@/hooks/use-cross-tab-sync';
+import { usePointerReorder } from '@/hooks/use-pointer-reorder';
+import {
+  DEFAULT_HISTORY_DEPTH,
+  DeletedItems,
+  EMPTY_HISTORY,
+  History,
+  HISTORY_DEPTH_OPTIONS,
+  HistoryEntry,
+  createHistoryEntry,
+  forgetTasks,
+  recordHistory,
+  trimHistory
+} from '@/lib/history';
+import { Tag, extractTagTokens, findTagByName, normalizeTagName, resolveTagNames, restoreTag } from '@/lib/tags';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  TRASH_RETENTION_OPTIONS,
+  isTrashed,
+  moveToTrash,
+  purgeExpiredTrash,
+  restoreFromTrash
+} from '@/lib/trash';
+import { archiveTask, isArchived, unarchiveTask } from '@/lib/archive';
+import { hasQuickAddTokens, parseQuickAdd } from '@/lib/quick-add';
+import { SmartList, matchesQuery, parseQuery } from '@/lib/query';
+import { TaskDetails, applyTaskDetails } from '@/lib/task-details';
+import { getLevelInfo, getLevelTitle, getTaskXp, getTotalXp, settleTaskXp } from '@/lib/xp';
+import { getStreakInfo } from '@/lib/streaks';
+import { TaskEventType, UnlockedAchievements, evaluateAchievements } from '@/lib/achievements';
+import { DEFAULT_PROFILE, HeroProfile, getHeroClass, parseProfile } from '@/lib/profile';
+import { BossBattle, getBossStatus, getNewlyDefeatedBosses, settleBosses } from '@/lib/boss';
+import {
+  DEFAULT_FILTER,
+  getListSearch,
+  getMissionPath,
+  parseFilterParam,
+  parseSortParam,
+  withParams,
+} from '@/lib/url-state';
+import {
+  DEFAULT_LIST,
+  DEFAULT_LIST_ID,
+  MissionList,
+  ensureDefaultList,
+  findListByName,
+  getListId,
+  getListPath,
+  moveList,
+  normalizeListName,
+  restoreList
+} from '@/lib/lists';
 
 /**
  * CONCEITOS DOM UTILIZADOS NESTE COMPONENTE:
@@ -13,47 +127,175 @@ import { toast } from 'sonner';
  * 3. addEventListener/removeEventListener -> Event listeners nativos do DOM
  * 4. querySelectorAll() -> Query selectors para encontrar elementos focalizáveis
  * 5. preventDefault() e stopPropagation() -> Controle de eventos
- * 6. localStorage -> Web API para persistência de dados no navegador
+ * 6. localStorage / IndexedDB -> Web APIs de persistência, acessadas via StorageAdapter
  * 7. document.activeElement -> Elemento que possui foco atualmente
  * 8. ARIA attributes -> Acessibilidade para leitores de tela
  */
 
-interface Task {
-  id: number;
-  text: string;
-  done: boolean;
-  createdAt: number;
+// Cada rota mostra uma parte do app; cabeçalho, estado e persistência são os mesmos
+interface TodoHeroesProps {
+  view?: 'missions' | 'archive' | 'trash' | 'trophies' | 'profile';
+  listId?: number;     // Lista aberta em /lists/:listId; ausente = lista padrão
+  missionId?: number;  // Missão aberta em /missions/:missionId
 }
 
-type Filter = 'all' | 'pending' | 'completed';
-
-const TodoHeroes = () => {
+const TodoHeroes = ({ view: routeView = 'missions', listId: routeListId = DEFAULT_LIST_ID, missionId }: TodoHeroesProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [newTaskText, setNewTaskText] = useState('');
-  const [filter, setFilter] = useState<Filter>('all');
+  const [newTaskDueDate, setNewTaskDueDate] = useState<string | undefined>();
+  const [newTaskDueTime, setNewTaskDueTime] = useState<string | undefined>();
+  const [newTaskPriority, setNewTaskPriority] = useState<Priority>('normal');
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [tagFilter, setTagFilter] = useState<number[]>([]);
+  const [lists, setLists] = useState<MissionList[]>([DEFAULT_LIST]);
+  const [listsLoaded, setListsLoaded] = useState(false);
+  const [smartLists, setSmartLists] = useState<SmartList[]>([]);
+  const [achievements, setAchievements] = useState<UnlockedAchievements>({});
+  const [profile, setProfile] = useState<HeroProfile>(DEFAULT_PROFILE);
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [expandedIds, setExpandedIds] = useState<number[]>([]);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editText, setEditText] = useState('');
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [taskPendingDeleteId, setTaskPendingDeleteId] = useState<number | null>(null);
   const [taskPendingDeleteText, setTaskPendingDeleteText] = useState('');
-  const [undoTaskData, setUndoTaskData] = useState<Task | null>(null);
-  const [undoTimeoutId, setUndoTimeoutId] = useState<NodeJS.Timeout | null>(null);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [historyDepth, setHistoryDepth] = useState(DEFAULT_HISTORY_DEPTH);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [now, setNow] = useState(Date.now());
+  const [reorderAnnouncement, setReorderAnnouncement] = useState('');
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [pendingRecovery, setPendingRecovery] = useState<{ storage: StorageAdapter; result: MigrationResult } | null>(null);
+  const [quarantine, setQuarantine] = useState<DamagedRecord[]>([]);
+  const [showQuarantine, setShowQuarantine] = useState(false);
   
   // MANIPULAÇÃO DOM COM useRef() - Alternativa React ao document.getElementById()
   // Estas referências permitem acesso direto aos elementos DOM sem quebrar o paradigma React
   const editInputRef = useRef<HTMLInputElement>(null);      // Input de edição inline
   const newTaskInputRef = useRef<HTMLInputElement>(null);   // Input para nova tarefa
+  const searchInputRef = useRef<HTMLInputElement>(null);
   const deleteButtonRef = useRef<HTMLButtonElement>(null);  // Botão de deletar (para retorno de foco)
   const modalRef = useRef<HTMLDivElement>(null);            // Modal (para focus trap)
 
-  // LocalStorage keys
-  const TASKS_KEY = 'todoHeroes:v1:tasks';
-  const FILTER_KEY = 'todoHeroes:v1:filter';
+  // PERSISTÊNCIA VIA ADAPTADOR - o componente não conhece localStorage nem IndexedDB
+  // storageRef guarda o adaptador escolhido em getStorageAdapter() (ver lib/storage)
+  const storageRef = useRef<StorageAdapter | null>(null);
+
+  // ESTADO MAIS RECENTE EM REFS - callbacks antigos (ex: botão "Desfazer" de um toast)
+  // leem daqui em vez de usar o valor de `tasks` capturado quando foram criados
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const achievementsRef = useRef(achievements);
+  achievementsRef.current = achievements;
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+
+  // Em /missions/:id a tela de fundo é a da missão aberta: a lista dela, o arquivo ou a lixeira
+  const detailTask = missionId !== undefined ? tasks.find(task => task.id === missionId) : undefined;
+  const view = !detailTask ? routeView : isTrashed(detailTask) ? 'trash' : isArchived(detailTask) ? 'archive' : 'missions';
+  const listId = detailTask ? getListId(detailTask, lists) : routeListId;
+
+  // Filtro e ordenação vêm da URL (ver lib/url-state)
+  const filter = parseFilterParam(searchParams.get('filter'));
+  const sortKey = parseSortParam(searchParams.get('sort'));
+
+  // Missões arquivadas ou na lixeira continuam em `tasks`, mas ficam fora da lista, contadores e progresso
+  const activeTasks = tasks.filter(task => !isTrashed(task) && !isArchived(task));
+  const archivedTasks = tasks.filter(task => isArchived(task) && !isTrashed(task));
+  const trashedTasks = tasks.filter(isTrashed);
+
+  // LISTA ABERTA - fora das listas (arquivo, lixeira) os contadores somam todas
+  const currentListId = view === 'missions' ? listId : null;
+  const currentList = lists.find(list => list.id === currentListId);
+  const listTasks = currentListId === null
+    ? activeTasks
+    : activeTasks.filter(task => getListId(task, lists) === currentListId);
+
+  // SINCRONIZAÇÃO ENTRE ABAS - mudanças feitas em outra aba chegam aqui já gravadas,
+  // então só precisam ser aplicadas ao estado (sem salvar de novo)
+  const handleSyncMessage = (message: SyncMessage) => {
+    if (message.type === 'tasks') {
+      setTasks(prev => applyTaskChanges(prev, message.changes));
+    } else if (message.key === 'tags') {
+      try {
+        setTags(JSON.parse(message.value));
+      } catch (error) {
+        console.error('Error applying synced tags:', error);
+      }
+    } else if (message.key === 'lists') {
+      try {
+        setLists(ensureDefaultList(JSON.parse(message.value)));
+      } catch (error) {
+        console.error('Error applying synced lists:', error);
+      }
+    } else if (message.key === 'smartLists') {
+      try {
+        setSmartLists(JSON.parse(message.value));
+      } catch (error) {
+        console.error('Error applying synced smart lists:', error);
+      }
+    } else if (message.key === 'achievements') {
+      try {
+        setAchievements(JSON.parse(message.value));
+      } catch (error) {
+        console.error('Error applying synced achievements:', error);
+      }
+    } else if (message.key === 'profile') {
+      try {
+        setProfile(parseProfile(message.value));
+      } catch (error) {
+        console.error('Error applying synced profile:', error);
+      }
+    } else if (message.key === 'trashRetentionDays') {
+      setTrashRetentionDays(Number(message.value));
+    }
+  };
+  const publishSync = useCrossTabSync(handleSyncMessage);
+
+  // ARRASTAR PARA REORDENAR - o hook calcula o destino; a gravação fica em reorderTask
+  const { listRef, draggingId, dropIndex, getHandleProps } = usePointerReorder(
+    (id, toIndex) => reorderTask(id, toIndex)
+  );
 
   // Load data on mount
   useEffect(() => {
-    loadTasks();
-    loadFilter();
+    getStorageAdapter()
+      .then(storage => {
+        storageRef.current = storage;
+        return Promise.all([
+          loadTrashRetention(storage).then(days => loadTasks(storage, days)),
+          loadTags(storage),
+          loadLists(storage),
+          loadSmartLists(storage),
+          loadAchievements(storage),
+          loadProfile(storage),
+          loadHistory(storage)
+        ]);
+      })
+      .catch(error => {
+        console.error('Error opening storage:', error);
+        toast.error('Erro ao abrir o armazenamento');
+      })
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // RELÓGIO DE ATRASO - setInterval() reavalia prazos a cada minuto
+  // Assim uma missão passa a aparecer como atrasada sem recarregar a página
+  // O mesmo relógio apaga da lixeira o que passou do prazo de retenção
+  const purgeHandlerRef = useRef<() => void>();
+  useEffect(() => {
+    const intervalId = setInterval(() => {
+      setNow(Date.now());
+      purgeHandlerRef.current?.();
+    }, 60 * 1000);
+    return () => clearInterval(intervalId);
   }, []);
 
   // GERENCIAMENTO DE FOCO COM useEffect()
@@ -66,71 +308,354 @@ const TodoHeroes = () => {
     }
   }, [editingId]);
 
-  // WEB API - LOCALSTORAGE PARA PERSISTÊNCIA DE DADOS
-  // localStorage é uma Web API nativa do navegador para armazenar dados localmente
-  // Os dados persistem mesmo após fechar o navegador (diferente de sessionStorage)
-  const loadTasks = () => {
+  // MIGRAÇÕES E VALIDAÇÃO - dados antigos são convertidos e conferidos antes de chegar ao estado
+  // Se a conversão falhar ou houver registros danificados, as gravações ficam bloqueadas
+  const loadTasks = async (storage: StorageAdapter, retentionDays: number) => {
     try {
-      const saved = localStorage.getItem(TASKS_KEY);  // Lê dados do navegador
-      if (saved) {
-        setTasks(JSON.parse(saved));                  // Converte JSON string para objeto
+      setQuarantine(await loadQuarantine(storage));
+
+      const result = await migrateStorage(storage);
+      if (result.damaged.length > 0) {
+        storageRef.current = null;  // Nada é gravado até o usuário passar pela tela de recuperação
+        setPendingRecovery({ storage, result });
+        return;
+      }
+
+      const { tasks: migratedTasks, fromVersion, toVersion } = result;
+      // Missões que venceram na lixeira enquanto o app estava fechado
+      const loadedTasks = purgeExpiredTrash(migratedTasks, retentionDays);
+      setTasks(loadedTasks);
+      if (loadedTasks.length !== migratedTasks.length) {
+        await storage.saveTasks(loadedTasks);
+      }
+      if (loadedTasks.length > 0 && fromVersion !== toVersion) {
+        toast.success(`Dados atualizados da versão ${fromVersion} para a ${toVersion}`);
       }
     } catch (error) {
       console.error('Error loading tasks:', error);
+      storageRef.current = null;
+      const message = error instanceof MigrationError
+        ? `${error.message}.${error.backupKey ? ' Uma cópia dos dados originais foi preservada.' : ''}`
+        : 'Os dados salvos não puderam ser lidos.';
+      setStorageError(message);
+      toast.error('Não foi possível carregar suas missões', { description: message });
     }
   };
 
-  const loadFilter = () => {
+  const loadTags = async (storage: StorageAdapter) => {
     try {
-      const saved = localStorage.getItem(FILTER_KEY);
-      if (saved && ['all', 'pending', 'completed'].includes(saved)) {
-        setFilter(saved as Filter);
+      const savedTags = await storage.loadSetting('tags');
+      if (savedTags) {
+        setTags(JSON.parse(savedTags));
+      }
+      const savedFilter = await storage.loadSetting('tagFilter');
+      if (savedFilter) {
+        setTagFilter(JSON.parse(savedFilter));
       }
     } catch (error) {
-      console.error('Error loading filter:', error);
+      console.error('Error loading tags:', error);
     }
   };
 
-  const saveTasks = (newTasks: Task[]) => {
+  const loadLists = async (storage: StorageAdapter) => {
     try {
-      localStorage.setItem(TASKS_KEY, JSON.stringify(newTasks)); // Salva no navegador
-      setTasks(newTasks);
+      const savedLists = await storage.loadSetting('lists');
+      if (savedLists) {
+        setLists(ensureDefaultList(JSON.parse(savedLists)));
+      }
     } catch (error) {
-      console.error('Error saving tasks:', error);
-      toast.error('Erro ao salvar tarefas');
+      console.error('Error loading lists:', error);
+    } finally {
+      setListsLoaded(true);
     }
   };
 
-  const saveFilter = (newFilter: Filter) => {
+  const loadSmartLists = async (storage: StorageAdapter) => {
+    try {
+      const saved = await storage.loadSetting('smartLists');
+      if (saved) {
+        setSmartLists(JSON.parse(saved));
+      }
+    } catch (error) {
+      console.error('Error loading smart lists:', error);
+    }
+  };
+
+  const loadAchievements = async (storage: StorageAdapter) => {
+    try {
+      const saved = await storage.loadSetting('achievements');
+      if (saved) {
+        setAchievements(JSON.parse(saved));
+      }
+    } catch (error) {
+      console.error('Error loading achievements:', error);
+    }
+  };
+
+  const loadProfile = async (storage: StorageAdapter) => {
+    try {
+      const saved = await storage.loadSetting('profile');
+      if (saved) {
+        setProfile(parseProfile(saved));
+      }
+    } catch (error) {
+      console.error('Error loading profile:', error);
+    }
+  };
+
+  const loadTrashRetention = async (storage: StorageAdapter): Promise<number> => {
     try {
-      localStorage.setItem(FILTER_KEY, newFilter);
-      setFilter(newFilter);
+      const saved = await storage.loadSetting('trashRetentionDays');
+      const days = Number(saved);
+      if (saved !== null && TRASH_RETENTION_OPTIONS.some(option => option.days === days)) {
+        setTrashRetentionDays(days);
+        return days;
+      }
     } catch (error) {
-      console.error('Error saving filter:', error);
+      console.error('Error loading trash retention:', error);
     }
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  };
+
+  const loadHistory = async (storage: StorageAdapter) => {
+    try {
+      const savedDepth = Number(await storage.loadSetting('historyDepth'));
+      const depth = HISTORY_DEPTH_OPTIONS.includes(savedDepth) ? savedDepth : DEFAULT_HISTORY_DEPTH;
+      setHistoryDepth(depth);
+
+      const savedHistory = await storage.loadSetting('history');
+      if (savedHistory) {
+        const parsed: History = JSON.parse(savedHistory);
+        if (Array.isArray(parsed.past) && Array.isArray(parsed.future)) {
+          setHistory(trimHistory(parsed, depth));
+        }
+      }
+    } catch (error) {
+      console.error('Error loading history:', error);
+    }
+  };
+
+  // RECUPERAÇÃO DE DADOS DANIFICADOS
+  const exportDamagedData = (records: DamagedRecord[], validTasks: Task[] = []) => {
+    downloadJson(exportFilename('recuperacao'), {
+      exportedAt: new Date().toISOString(),
+      damaged: records,
+      validTasks
+    });
+  };
+
+  const continueRecovery = async () => {
+    if (!pendingRecovery) return;
+    const { storage, result } = pendingRecovery;
+
+    try {
+      const newQuarantine = await commitRecovery(storage, result);
+      storageRef.current = storage;
+      setTasks(result.tasks);
+      setQuarantine(newQuarantine);
+      setPendingRecovery(null);
+      toast.success(`${result.damaged.length} registro(s) movido(s) para a quarentena`);
+    } catch (error) {
+      console.error('Error committing recovery:', error);
+      toast.error('Erro ao salvar a recuperação');
+    }
+  };
+
+  const discardQuarantine = () => {
+    const storage = storageRef.current;
+    if (!storage) return;
+
+    saveQuarantine(storage, [])
+      .then(() => {
+        setQuarantine([]);
+        setShowQuarantine(false);
+        toast.success('Quarentena esvaziada');
+      })
+      .catch(error => {
+        console.error('Error discarding quarantine:', error);
+        toast.error('Erro ao esvaziar a quarentena');
+      });
+  };
+
+  // O estado é atualizado na hora; a gravação acontece em segundo plano
+  // Depois de gravar, avisa as outras abas apenas do que mudou
+  // Com `label`, a mudança entra no histórico e pode ser desfeita
+  // `deleted` acompanha "Excluir lista" e "Excluir etiqueta", para desfazer também devolver o item
+  const saveTasks = (nextTasks: Task[], label?: string, deleted?: DeletedItems): HistoryEntry | null => {
+    const previousTasks = tasksRef.current;
+    const heroClass = getHeroClass(profileRef.current.heroClass);
+    // Chefes primeiro: uma vitória conclui a missão, e o XP dela já sai com o bônus
+    const settled = settleTaskXp(previousTasks, settleBosses(previousTasks, nextTasks), heroClass);
+    const newTasks = touchChangedTasks(previousTasks, settled);
+    const changes = diffTasks(previousTasks, newTasks);
+    tasksRef.current = newTasks;
+    setTasks(newTasks);
+
+    const entry = label ? createHistoryEntry(label, previousTasks, newTasks, deleted) : null;
+    if (entry) {
+      saveHistory(recordHistory(historyRef.current, entry, historyDepth));
+    }
+
+    storageRef.current?.saveTasks(newTasks)
+      .then(() => {
+        if (hasChanges(changes)) publishSync({ type: 'tasks', changes });
+      })
+      .catch(error => {
+        console.error('Error saving tasks:', error);
+        toast.error('Erro ao salvar tarefas');
+      });
+    return entry;
+  };
+
+  const saveHistory = (newHistory: History) => {
+    historyRef.current = newHistory;
+    setHistory(newHistory);
+    saveSetting('history', JSON.stringify(newHistory));
+  };
+
+  const saveHistoryDepth = (depth: number) => {
+    setHistoryDepth(depth);
+    saveSetting('historyDepth', String(depth));
+    saveHistory(trimHistory(historyRef.current, depth));
+  };
+
+  // DESFAZER / REFAZER - aplica as mudanças guardadas sobre o estado atual
+  const undo = () => {
+    const { past, future } = historyRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return;
+
+    saveTasks(applyTaskChanges(tasksRef.current, entry.backward));
+    if (entry.deletedList) {
+      saveLists(restoreList(lists, entry.deletedList.list, entry.deletedList.index));
+    }
+    if (entry.deletedTag) {
+      const { tag, index, filtered } = entry.deletedTag;
+      saveTags(restoreTag(tags, tag, index));
+      if (filtered && !tagFilter.includes(tag.id)) saveTagFilter([...tagFilter, tag.id]);
+    }
+    saveHistory({ past: past.slice(0, -1), future: [entry, ...future] });
+    toast.success(`Desfeito: ${entry.label}`);
+  };
+
+  const redo = () => {
+    const { past, future } = historyRef.current;
+    const entry = future[0];
+    if (!entry) return;
+
+    saveTasks(applyTaskChanges(tasksRef.current, entry.forward));
+    if (entry.deletedList) {
+      const listId = entry.deletedList.list.id;
+      saveLists(lists.filter(list => list.id !== listId));
+      if (currentListId === listId) navigate('/');
+    }
+    if (entry.deletedTag) {
+      removeTag(entry.deletedTag.tag.id);
+    }
+    saveHistory({ past: [...past, entry], future: future.slice(1) });
+    toast.success(`Refeito: ${entry.label}`);
+  };
+
+  const saveSetting = (key: string, value: string, errorMessage?: string) => {
+    storageRef.current?.saveSetting(key, value)
+      .then(() => publishSync({ type: 'setting', key, value }))
+      .catch(error => {
+        console.error(`Error saving ${key}:`, error);
+        if (errorMessage) toast.error(errorMessage);
+      });
+  };
+
+  // ESTADO NA URL - filtro e ordenação criam entradas no histórico (voltar/avançar funcionam);
+  // a busca substitui a entrada atual para não criar uma por tecla digitada.
+  // Fora das listas (arquivo, lixeira, missão não encontrada) a mudança leva à lista padrão
+  const updateListParams = (changes: Record<string, string | null>, replace = false) => {
+    const inList = view === 'missions' && currentList && missionId === undefined;
+    const params = withParams(inList ? searchParams : new URLSearchParams(getListSearch(searchParams)), changes);
+    navigate({ pathname: getListPath(currentList?.id ?? DEFAULT_LIST_ID), search: params.toString() }, { replace });
+  };
+
+  // Filtro e ordenação vivem só na URL: sem o parâmetro, vale o padrão
+  const saveFilter = (newFilter: Filter) => {
+    updateListParams({ filter: newFilter });
+  };
+
+  const saveSort = (newSortKey: SortKey) => {
+    updateListParams({ sort: newSortKey });
+  };
+
+  const saveTags = (newTags: Tag[]) => {
+    setTags(newTags);
+    saveSetting('tags', JSON.stringify(newTags), 'Erro ao salvar etiquetas');
+  };
+
+  const saveTagFilter = (newTagFilter: number[]) => {
+    setTagFilter(newTagFilter);
+    saveSetting('tagFilter', JSON.stringify(newTagFilter));
+  };
+
+  const saveLists = (newLists: MissionList[]) => {
+    setLists(newLists);
+    saveSetting('lists', JSON.stringify(newLists), 'Erro ao salvar listas');
+  };
+
+  const saveAchievements = (newAchievements: UnlockedAchievements) => {
+    achievementsRef.current = newAchievements;
+    setAchievements(newAchievements);
+    saveSetting('achievements', JSON.stringify(newAchievements), 'Erro ao salvar conquistas');
+  };
+
+  const saveProfile = (newProfile: HeroProfile) => {
+    setProfile(newProfile);
+    saveSetting('profile', JSON.stringify(newProfile), 'Erro ao salvar o perfil');
+  };
+
+  const saveSmartLists = (newSmartLists: SmartList[]) => {
+    setSmartLists(newSmartLists);
+    saveSetting('smartLists', JSON.stringify(newSmartLists), 'Erro ao salvar listas inteligentes');
   };
 
   const addTask = (text: string) => {
-    const trimmedText = text.trim();
-    if (!trimmedText) return;
+    // ADIÇÃO RÁPIDA - prazo, #etiquetas, !prioridade e @responsável saem do texto (ver lib/quick-add)
+    // O que for reconhecido no texto tem preferência sobre os seletores ao lado do campo
+    const parsed = parseQuickAdd(text);
+    const { text: trimmedText, tagNames } = parsed;
+    if (!trimmedText) {
+      if (hasQuickAddTokens(parsed)) toast.error('Descreva a missão além dos atalhos');
+      return;
+    }
 
     // Avoid consecutive duplicates
-    const lastTask = tasks[tasks.length - 1];
+    const lastTask = listTasks[listTasks.length - 1];
     if (lastTask && lastTask.text === trimmedText) {
       toast.error('Tarefa duplicada não pode ser adicionada consecutivamente');
       return;
     }
 
+    const resolved = resolveTagNames(tags, tagNames);
+    if (resolved.tags.length !== tags.length) saveTags(resolved.tags);
+
+    const dueDate = parsed.dueDate ?? newTaskDueDate;
+    const dueTime = parsed.dueDate ? parsed.dueTime : newTaskDueTime;
+
     const newTask: Task = {
       id: Date.now(),
       text: trimmedText,
       done: false,
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      priority: parsed.priority ?? newTaskPriority,
+      listId: currentListId ?? DEFAULT_LIST_ID,
+      ...(resolved.tagIds.length > 0 && { tagIds: resolved.tagIds }),
+      ...(dueDate && { dueDate }),
+      ...(dueDate && dueTime && { dueTime }),
+      ...(parsed.assignee && { assignee: parsed.assignee })
     };
 
     const newTasks = [...tasks, newTask];
-    saveTasks(newTasks);
+    saveTasks(newTasks, 'Adicionar missão');
     setNewTaskText('');
+    setNewTaskDueDate(undefined);
+    setNewTaskDueTime(undefined);
+    setNewTaskPriority('normal');
     
     // GERENCIAMENTO DE FOCO - Manter produtividade do usuário
     // Após adicionar tarefa, foco retorna automaticamente ao input para próxima tarefa
@@ -139,20 +664,243 @@ const TodoHeroes = () => {
     }
 
     toast.success('Missão adicionada com sucesso!');
+    emitTaskEvent('added');
+  };
+
+  // Avisa quando uma conclusão leva o herói a um novo nível ou estende a sequência diária
+  const announceProgress = (previousTasks: Task[]) => {
+    const previousLevel = getLevelInfo(getTotalXp(previousTasks)).level;
+    const level = getLevelInfo(getTotalXp(tasksRef.current)).level;
+    if (level > previousLevel) {
+      toast.success(`Subiu para o nível ${level}! ⭐`, { description: getLevelTitle(level) });
+    }
+
+    const previousStreak = getStreakInfo(previousTasks);
+    const nextStreak = getStreakInfo(tasksRef.current);
+    if (!previousStreak.activeToday && nextStreak.activeToday && nextStreak.current > 1) {
+      toast.success(`Sequência de ${nextStreak.current} dias! 🔥`, {
+        description: nextStreak.freezes > previousStreak.freezes ? 'Você ganhou uma proteção de sequência ❄️' : undefined
+      });
+    }
+  };
+
+  // Avisa cada chefe derrotado pela última mudança; retorna se houve algum
+  const announceBossDefeats = (previousTasks: Task[]): boolean => {
+    const defeated = getNewlyDefeatedBosses(previousTasks, tasksRef.current);
+    defeated.forEach(boss => {
+      toast.success(`Chefe derrotado: "${boss.text}"! 🏆`, { description: `+${boss.xp ?? 0} XP e a medalha do chefe` });
+    });
+    return defeated.length > 0;
+  };
+
+  // CONQUISTAS - avaliadas a cada evento com as missões já atualizadas (ver lib/achievements)
+  const emitTaskEvent = (type: TaskEventType) => {
+    const at = Date.now();
+    const unlockedNow = evaluateAchievements({ type, tasks: tasksRef.current, at }, achievementsRef.current);
+    if (unlockedNow.length === 0) return;
+
+    saveAchievements({
+      ...achievementsRef.current,
+      ...Object.fromEntries(unlockedNow.map(achievement => [achievement.id, at]))
+    });
+    unlockedNow.forEach(achievement => {
+      toast.success(`Conquista desbloqueada: ${achievement.title} ${achievement.icon}`, {
+        description: achievement.description,
+        action: { label: 'Ver troféus', onClick: () => navigate('/trophies') }
+      });
+    });
   };
 
   const toggleDone = (id: number) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+
+    // updateTaskDone também gera a próxima ocorrência de missões recorrentes
+    const newTasks = updateTaskDone(tasks, id, !task.done);
+    saveTasks(newTasks, task.done ? 'Reativar missão' : 'Concluir missão');
+
+    if (task.done) {
+      toast.success(`Missão reativada! −${task.xp ?? getTaskXp(task)} XP`);
+      return;
+    }
+    const completedTask = tasksRef.current.find(t => t.id === id);
+    const nextOccurrence = newTasks.find(t => t.id === completedTask?.nextOccurrenceId);
+    const xpGained = completedTask?.xp ?? 0;
+    toast.success(
+      nextOccurrence
+        ? `Missão concluída! 🎉 +${xpGained} XP • Próxima: ${formatDue(nextOccurrence.dueDate, nextOccurrence.dueTime)}`
+        : `Missão concluída! 🎉 +${xpGained} XP`
+    );
+    announceBossDefeats(tasks);
+    announceProgress(tasks);
+    emitTaskEvent('completed');
+  };
+
+  const updateTaskRecurrence = (id: number, recurrence?: RecurrenceRule) => {
+    const newTasks = tasks.map(task => {
+      if (task.id !== id) return task;
+      const { recurrence: _recurrence, ...rest } = task;
+      return recurrence ? { ...rest, recurrence } : rest;
+    });
+    saveTasks(newTasks, 'Alterar repetição');
+  };
+
+  const updateTaskBoss = (id: number, boss?: BossBattle) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+
+    const newTasks = tasks.map(t => {
+      if (t.id !== id) return t;
+      const { boss: _boss, ...rest } = t;
+      return boss ? { ...rest, boss } : rest;
+    });
+    saveTasks(newTasks, !task.boss ? 'Transformar em chefe' : boss ? 'Alterar batalha contra chefe' : 'Remover chefe');
+  };
+
+  const updateTaskDue = (id: number, dueDate?: string, dueTime?: string) => {
+    const newTasks = tasks.map(task => {
+      if (task.id !== id) return task;
+      const { dueDate: _date, dueTime: _time, ...rest } = task;
+      return {
+        ...rest,
+        ...(dueDate && { dueDate }),
+        ...(dueDate && dueTime && { dueTime })
+      };
+    });
+    saveTasks(newTasks, 'Alterar prazo');
+  };
+
+  const updateTaskPriority = (id: number, priority: Priority) => {
     const newTasks = tasks.map(task =>
-      task.id === id ? { ...task, done: !task.done } : task
+      task.id === id ? { ...task, priority } : task
     );
-    saveTasks(newTasks);
-    
+    saveTasks(newTasks, 'Alterar prioridade');
+  };
+
+  const toggleTaskTag = (id: number, tagId: number) => {
+    const newTasks = tasks.map(task => {
+      if (task.id !== id) return task;
+      const tagIds = task.tagIds ?? [];
+      return {
+        ...task,
+        tagIds: tagIds.includes(tagId) ? tagIds.filter(t => t !== tagId) : [...tagIds, tagId]
+      };
+    });
+    saveTasks(newTasks, 'Alterar etiquetas');
+  };
+
+  // GERENCIAMENTO DE ETIQUETAS
+  const createTag = (name: string, color: string) => {
+    if (findTagByName(tags, name)) {
+      toast.error('Já existe uma etiqueta com esse nome');
+      return;
+    }
+    saveTags([...tags, { id: Date.now(), name: normalizeTagName(name), color }]);
+  };
+
+  const updateTag = (updatedTag: Tag) => {
+    const duplicate = findTagByName(tags, updatedTag.name);
+    if (duplicate && duplicate.id !== updatedTag.id) {
+      toast.error('Já existe uma etiqueta com esse nome');
+      return;
+    }
+    saveTags(tags.map(tag =>
+      tag.id === updatedTag.id ? { ...updatedTag, name: normalizeTagName(updatedTag.name) } : tag
+    ));
+  };
+
+  // Tira a etiqueta da configuração e do filtro ativo (excluir e refazer)
+  const removeTag = (tagId: number) => {
+    saveTags(tags.filter(tag => tag.id !== tagId));
+    if (tagFilter.includes(tagId)) {
+      saveTagFilter(tagFilter.filter(t => t !== tagId));
+    }
+  };
+
+  const deleteTag = (tagId: number) => {
+    const index = tags.findIndex(tag => tag.id === tagId);
+    if (index < 0) return;
+
+    // Remove a etiqueta de todas as missões; entra no histórico mesmo sem missões
+    saveTasks(tasks.map(task =>
+      task.tagIds?.includes(tagId)
+        ? { ...task, tagIds: task.tagIds.filter(t => t !== tagId) }
+        : task
+    ), 'Excluir etiqueta', { deletedTag: { tag: tags[index], index, filtered: tagFilter.includes(tagId) } });
+    removeTag(tagId);
+  };
+
+  const toggleTagFilter = (tagId: number) => {
+    saveTagFilter(
+      tagFilter.includes(tagId) ? tagFilter.filter(t => t !== tagId) : [...tagFilter, tagId]
+    );
+  };
+
+  // SUB-MISSÕES
+  const toggleExpanded = (id: number) => {
+    setExpandedIds(prev => prev.includes(id) ? prev.filter(e => e !== id) : [...prev, id]);
+  };
+
+  const addSubtask = (id: number, text: string) => {
+    const trimmedText = text.trim();
+    if (!trimmedText) return;
+
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+
+    const withSubtask = tasks.map(t =>
+      t.id === id
+        ? { ...t, subtasks: [...(t.subtasks ?? []), { id: Date.now(), text: trimmedText, done: false }] }
+        : t
+    );
+    // Um novo passo pendente reabre missões concluídas automaticamente
+    saveTasks(task.autoComplete ? updateTaskDone(withSubtask, id, false) : withSubtask, 'Adicionar sub-missão');
+  };
+
+  const toggleSubtask = (id: number, subtaskId: number) => {
     const task = tasks.find(t => t.id === id);
-    if (task) {
-      toast.success(task.done ? 'Missão reativada!' : 'Missão concluída! 🎉');
+    if (!task) return;
+
+    const subtasks = (task.subtasks ?? []).map(sub =>
+      sub.id === subtaskId ? { ...sub, done: !sub.done } : sub
+    );
+    const allDone = subtasks.every(sub => sub.done);
+    const withSubtasks = tasks.map(t => t.id === id ? { ...t, subtasks } : t);
+
+    saveTasks(task.autoComplete ? updateTaskDone(withSubtasks, id, allDone) : withSubtasks, 'Marcar sub-missão');
+
+    // Concluída pela conclusão automática ou pela derrota do chefe
+    const completedTask = !task.done ? tasksRef.current.find(t => t.id === id && t.done) : undefined;
+    const bossDefeated = announceBossDefeats(tasks);
+    if (completedTask) {
+      if (!bossDefeated) toast.success(`Missão concluída! 🎉 +${completedTask.xp ?? 0} XP`);
+      announceProgress(tasks);
+      emitTaskEvent('completed');
     }
   };
 
+  const deleteSubtask = (id: number, subtaskId: number) => {
+    const newTasks = tasks.map(task => {
+      if (task.id !== id) return task;
+      const subtasks = (task.subtasks ?? []).filter(sub => sub.id !== subtaskId);
+      return { ...task, subtasks, ...(subtasks.length === 0 && { autoComplete: false }) };
+    });
+    saveTasks(newTasks, 'Excluir sub-missão');
+  };
+
+  const setAutoComplete = (id: number, autoComplete: boolean) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+
+    const withAutoComplete = tasks.map(t => t.id === id ? { ...t, autoComplete } : t);
+    const { done, total } = getSubtaskProgress(task);
+    // Ao ativar, sincroniza imediatamente com o estado dos passos
+    saveTasks(
+      autoComplete ? updateTaskDone(withAutoComplete, id, total > 0 && done === total) : withAutoComplete,
+      'Alterar conclusão automática'
+    );
+  };
+
   const openDeleteModal = (id: number) => {
     const taskToDelete = tasks.find(t => t.id === id);
     if (!taskToDelete) return;
@@ -183,45 +931,30 @@ const TodoHeroes = () => {
     const taskToDelete = tasks.find(t => t.id === taskPendingDeleteId);
     if (!taskToDelete) return;
 
-    const newTasks = tasks.filter(task => task.id !== taskPendingDeleteId);
-    saveTasks(newTasks);
-    
-    // Store for potential undo
-    setUndoTaskData(taskToDelete);
+    // A missão só vai para a lixeira; apagar de vez é feito em /trash
+    const newTasks = tasks.map(task => task.id === taskPendingDeleteId ? moveToTrash(task) : task);
+    const entry = saveTasks(newTasks, 'Mover para a lixeira');
     
     // Show toast with undo option
-    const toastId = toast.success('Missão excluída', {
+    toast.success('Missão movida para a lixeira', {
       action: {
         label: 'Desfazer',
-        onClick: () => undoDelete(),
+        onClick: () => undoEntry(entry),
       },
       duration: 3000,
     });
-
-    // Clear undo data after 3 seconds
-    const timeoutId = setTimeout(() => {
-      setUndoTaskData(null);
-    }, 3000);
-    
-    if (undoTimeoutId) clearTimeout(undoTimeoutId);
-    setUndoTimeoutId(timeoutId);
     
     closeDeleteModal();
   };
 
-  const undoDelete = () => {
-    if (!undoTaskData) return;
-
-    const newTasks = [...tasks, undoTaskData].sort((a, b) => a.createdAt - b.createdAt);
-    saveTasks(newTasks);
-    setUndoTaskData(null);
-    
-    if (undoTimeoutId) {
-      clearTimeout(undoTimeoutId);
-      setUndoTimeoutId(null);
+  // Desfaz uma ação específica, desde que ela ainda seja a última do histórico
+  const undoEntry = (entry: HistoryEntry | null) => {
+    const past = historyRef.current.past;
+    if (!entry || past[past.length - 1]?.id !== entry.id) {
+      toast.error('Outra ação foi feita depois; use o histórico para desfazer');
+      return;
     }
-    
-    toast.success('Missão restaurada!');
+    undo();
   };
 
   const startEdit = (id: number, text: string) => {
@@ -232,16 +965,24 @@ const TodoHeroes = () => {
   const saveEdit = () => {
     if (!editingId) return;
     
-    const trimmedText = editText.trim();
+    const { text: trimmedText, tagNames } = extractTagTokens(editText);
     if (!trimmedText) {
       toast.error('Texto da missão não pode estar vazio');
       return;
     }
 
-    const newTasks = tasks.map(task =>
-      task.id === editingId ? { ...task, text: trimmedText } : task
-    );
-    saveTasks(newTasks);
+    const resolved = resolveTagNames(tags, tagNames);
+    if (resolved.tags.length !== tags.length) saveTags(resolved.tags);
+
+    const newTasks = tasks.map(task => {
+      if (task.id !== editingId) return task;
+      const tagIds = [...(task.tagIds ?? [])];
+      resolved.tagIds.forEach(tagId => {
+        if (!tagIds.includes(tagId)) tagIds.push(tagId);
+      });
+      return { ...task, text: trimmedText, ...(tagIds.length > 0 && { tagIds }) };
+    });
+    saveTasks(newTasks, 'Editar missão');
     setEditingId(null);
     setEditText('');
     toast.success('Missão editada com sucesso!');
@@ -253,30 +994,265 @@ const TodoHeroes = () => {
   };
 
   const clearCompleted = () => {
-    const completedCount = tasks.filter(t => t.done).length;
+    const completedCount = listTasks.filter(t => t.done).length;
     if (completedCount === 0) return;
 
-    const newTasks = tasks.filter(task => !task.done);
-    saveTasks(newTasks);
-    toast.success(`${completedCount} missão(ões) concluída(s) removida(s)`);
+    // Concluídas vão para o arquivo, onde ficam como registro do que foi feito
+    const archivedAt = Date.now();
+    const activeIds = new Set(listTasks.map(task => task.id));
+    const newTasks = tasks.map(task => task.done && activeIds.has(task.id) ? archiveTask(task, archivedAt) : task);
+    saveTasks(newTasks, 'Limpar concluídas');
+    toast.success(`${completedCount} missão(ões) concluída(s) arquivada(s)`);
+    emitTaskEvent('cleared');
   };
 
-  // Filter tasks based on current filter
-  const filteredTasks = tasks.filter(task => {
+  const unarchive = (id: number) => {
+    saveTasks(tasks.map(task => task.id === id ? unarchiveTask(task) : task), 'Desarquivar missão');
+    toast.success('Missão de volta à lista');
+  };
+
+  // LISTAS (CAMPANHAS)
+  const createList = (name: string) => {
+    if (findListByName(lists, name)) {
+      toast.error('Já existe uma lista com esse nome');
+      return;
+    }
+    const newList: MissionList = { id: Date.now(), name: normalizeListName(name) };
+    saveLists([...lists, newList]);
+    navigate(getListPath(newList.id));
+  };
+
+  const renameList = (id: number, name: string) => {
+    const duplicate = findListByName(lists, name);
+    if (duplicate && duplicate.id !== id) {
+      toast.error('Já existe uma lista com esse nome');
+      return;
+    }
+    saveLists(lists.map(list => list.id === id ? { ...list, name: normalizeListName(name) } : list));
+  };
+
+  // As missões ativas da lista vão para a lixeira; se restauradas, voltam para a lista padrão
+  const deleteList = (id: number) => {
+    if (id === DEFAULT_LIST_ID) return;
+
+    const index = lists.findIndex(list => list.id === id);
+    if (index < 0) return;
+
+    const deletedAt = Date.now();
+    const listTaskIds = new Set(
+      activeTasks.filter(task => getListId(task, lists) === id).map(task => task.id)
+    );
+    // Entra no histórico mesmo sem missões: desfazer devolve a lista
+    saveTasks(
+      tasks.map(task => listTaskIds.has(task.id) ? moveToTrash(task, deletedAt) : task),
+      'Excluir lista',
+      { deletedList: { list: lists[index], index } }
+    );
+    saveLists(lists.filter(list => list.id !== id));
+    if (currentListId === id) navigate('/');
+    toast.success('Lista excluída');
+  };
+
+  const reorderList = (id: number, direction: -1 | 1) => {
+    saveLists(moveList(lists, id, direction));
+  };
+
+  // Painel de detalhes: grava de uma vez todos os campos do formulário
+  const saveTaskDetails = (id: number, details: TaskDetails) => {
+    saveTasks(tasks.map(task => task.id === id ? applyTaskDetails(task, details) : task), 'Editar detalhes da missão');
+  };
+
+  const moveTaskToList = (id: number, targetListId: number) => {
+    saveTasks(tasks.map(task => task.id === id ? { ...task, listId: targetListId } : task), 'Mover para outra lista');
+    toast.success(`Missão movida para "${lists.find(list => list.id === targetListId)?.name}"`);
+  };
+
+  // ORDEM MANUAL - só faz sentido com a ordenação "Manual"; com filtro ativo,
+  // a missão muda de lugar em relação às vizinhas visíveis
+  const canReorder = sortKey === 'manual';
+
+  const reorderTask = (id: number, toIndex: number) => {
+    const task = filteredTasks.find(t => t.id === id);
+    if (!canReorder || !task) return;
+
+    saveTasks(moveTaskTo(tasks, filteredTasks, id, toIndex), 'Reordenar missão');
+    // Lido pelo leitor de tela através da região aria-live
+    setReorderAnnouncement(`"${task.text}" movida para a posição ${toIndex + 1} de ${filteredTasks.length}`);
+  };
+
+  // Alt+↑ / Alt+↓ em qualquer parte da linha (fora de campos de texto) move a missão
+  const handleReorderKeyDown = (e: React.KeyboardEvent, id: number, index: number) => {
+    if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+    const target = e.target as HTMLElement;
+    if (target.closest('input, textarea')) return;
+
+    e.preventDefault();
+    if (!canReorder) {
+      setReorderAnnouncement('Escolha a ordenação "Manual" para mover missões');
+      return;
+    }
+    const toIndex = index + (e.key === 'ArrowUp' ? -1 : 1);
+    if (toIndex < 0 || toIndex >= filteredTasks.length) return;
+
+    reorderTask(id, toIndex);
+    // O React move o mesmo nó no DOM; devolvemos o foco caso o navegador o tenha perdido
+    requestAnimationFrame(() => {
+      if (document.activeElement !== target) target.focus();
+    });
+  };
+
+  // PALETA DE COMANDOS
+  const exportMissions = () => {
+    downloadJson(exportFilename(), {
+      exportedAt: new Date().toISOString(),
+      tasks,
+      tags,
+      lists
+    });
+  };
+
+  // BUSCA - fica em ?q= para poder ser salva nos favoritos; o arquivo usa o mesmo parâmetro.
+  // Aceita a linguagem de filtros (ver lib/query): texto livre e campos como status:, tag:, due:
+  const searchQuery = view === 'missions' ? searchParams.get('q') ?? '' : '';
+  const parsedQuery = parseQuery(searchQuery, { tags, lists, now });
+  const assignees = [...new Set(activeTasks.map(task => task.assignee).filter(Boolean))];
+
+  const updateSearch = (query: string) => {
+    updateListParams({ q: query || null }, true);
+  };
+
+  // LISTAS INTELIGENTES - aplicar mostra todas as missões que casam com a consulta salva
+  const applySmartList = (smartList: SmartList) => {
+    updateListParams({ q: smartList.query, filter: DEFAULT_FILTER });
+  };
+
+  const saveSmartList = (name: string) => {
+    saveSmartLists([...smartLists, { id: Date.now(), name, query: searchQuery.trim() }]);
+    toast.success(`Lista inteligente "${name}" salva`);
+  };
+
+  const deleteSmartList = (id: number) => {
+    saveSmartLists(smartLists.filter(smartList => smartList.id !== id));
+  };
+
+  const focusNewTask = () => {
+    if (view !== 'missions' || !currentList) navigate('/');
+    // setTimeout espera a lista aparecer caso tenha sido preciso navegar
+    setTimeout(() => newTaskInputRef.current?.focus(), 100);
+  };
+
+  // Abre a lista da missão e a destaca; filtros que a escondam são limpos
+  // (a busca fica para trás, como em qualquer troca de lista)
+  // Com focusRow = false o foco fica livre (ex: para o campo de edição)
+  const jumpToTask = (id: number, focusRow = true) => {
+    const task = tasks.find(t => t.id === id);
+    if (!task) return;
+
+    const hidden = !matchesFilters(task);
+    const params = new URLSearchParams(getListSearch(searchParams));
+    navigate({
+      pathname: getListPath(getListId(task, lists)),
+      search: (hidden ? withParams(params, { filter: null }) : params).toString()
+    });
+    if (hidden) saveTagFilter([]);
+    setTimeout(() => {
+      const row = document.querySelector<HTMLElement>(`[data-task-id="${id}"]`);
+      row?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      if (focusRow) row?.focus();
+    }, 100);
+  };
+
+  const getTaskListName = (task: Task) =>
+    lists.find(list => list.id === getListId(task, lists))?.name ?? DEFAULT_LIST.name;
+
+  // Fecha os detalhes voltando no histórico; aberto por um link direto, vai para a tela de fundo
+  const closeMissionDetail = () => {
+    if (location.key !== 'default') navigate(-1);
+    else navigate(view === 'missions' ? getListPath(listId) : `/${view}`, { replace: true });
+  };
+
+  // LIXEIRA
+  const restoreTask = (id: number) => {
+    saveTasks(tasks.map(task => task.id === id ? restoreFromTrash(task) : task), 'Restaurar missão');
+    toast.success('Missão restaurada');
+  };
+
+  // Exclusão definitiva não entra no histórico e some dele: não há como desfazer
+  const deleteForever = (ids: number[]) => {
+    saveTasks(tasksRef.current.filter(task => !ids.includes(task.id)));
+    saveHistory(forgetTasks(historyRef.current, ids));
+  };
+
+  const purgeTrash = (retentionDays: number) => {
+    const remaining = purgeExpiredTrash(tasksRef.current, retentionDays);
+    if (remaining.length === tasksRef.current.length) return;
+
+    const remainingIds = new Set(remaining.map(task => task.id));
+    deleteForever(tasksRef.current.filter(task => !remainingIds.has(task.id)).map(task => task.id));
+  };
+  purgeHandlerRef.current = () => purgeTrash(trashRetentionDays);
+
+  const saveTrashRetention = (days: number) => {
+    setTrashRetentionDays(days);
+    saveSetting('trashRetentionDays', String(days));
+    purgeTrash(days);
+  };
+
+  // Filter tasks based on current filter, then apply the chosen sort
+  // Etiquetas selecionadas combinam com o filtro de status: basta ter uma delas
+  const matchesFilters = (task: Task) => {
+    if (tagFilter.length > 0 && !task.tagIds?.some(tagId => tagFilter.includes(tagId))) {
+      return false;
+    }
     switch (filter) {
       case 'pending':
         return !task.done;
       case 'completed':
         return task.done;
+      case 'overdue':
+        return isOverdue(task, now);
       default:
         return true;
     }
-  });
+  };
+  // A busca soma-se aos filtros
+  const filteredTasks = sortTasks(
+    listTasks.filter(task => matchesQuery(task, parsedQuery) && matchesFilters(task)),
+    sortKey
+  );
 
   // Counters
-  const pendingCount = tasks.filter(t => !t.done).length;
-  const completedCount = tasks.filter(t => t.done).length;
+  const pendingCount = listTasks.filter(t => !t.done).length;
+  const completedCount = listTasks.filter(t => t.done).length;
+  const overdueCount = listTasks.filter(t => isOverdue(t, now)).length;
+  // Progresso ponderado: sub-missões concluídas contam como fração da missão
+  const progress = listTasks.length > 0
+    ? listTasks.reduce((sum, task) => sum + getTaskCompletion(task), 0) / listTasks.length
+    : 0;
+  // XP é de todas as listas, não só da aberta
+  const levelInfo = getLevelInfo(getTotalXp(tasks));
+  const streak = getStreakInfo(tasks, now);
+  const highPriorityTasks = listTasks.filter(isHighPriority);
+  const highPriorityDone = highPriorityTasks.filter(t => t.done).length;
   const hasCompleted = completedCount > 0;
+  const tagsById = new Map(tags.map(tag => [tag.id, tag]));
+  // Missões vinculadas a um chefe mostram contra quem são o golpe
+  const bossByLinkedId = new Map(
+    activeTasks.filter(task => task.boss).flatMap(boss => (boss.boss?.linkedIds ?? []).map(id => [id, boss] as const))
+  );
+  const tagUsage = activeTasks.reduce<Record<number, number>>((usage, task) => {
+    task.tagIds?.forEach(tagId => {
+      usage[tagId] = (usage[tagId] ?? 0) + 1;
+    });
+    return usage;
+  }, {});
+  const listCounts = activeTasks.reduce<Record<number, { pending: number; total: number }>>((counts, task) => {
+    const id = getListId(task, lists);
+    counts[id] = counts[id] ?? { pending: 0, total: 0 };
+    counts[id].total++;
+    if (!task.done) counts[id].pending++;
+    return counts;
+  }, {});
 
   // EVENT HANDLERS PARA NAVEGAÇÃO POR TECLADO
   // Melhora acessibilidade permitindo interação sem mouse
@@ -302,6 +1278,51 @@ const TodoHeroes = () => {
     }
   };
 
+  // ATALHOS GLOBAIS - Ctrl+K abre a paleta de comandos, Ctrl+Z desfaz, Ctrl+Shift+Z (ou Ctrl+Y) refaz;
+  // Cmd no macOS. Alt+1..4 troca o filtro, N começa uma nova missão e / vai para a busca.
+  // Dentro de campos de texto só a paleta responde (Ctrl+Z continua desfazendo a digitação)
+  const shortcutHandlerRef = useRef<(e: KeyboardEvent) => void>();
+  shortcutHandlerRef.current = (e: KeyboardEvent) => {
+    if (showDeleteModal) return;
+
+    const key = e.key.toLowerCase();
+    const mod = e.ctrlKey || e.metaKey;
+    if (mod && key === 'k') {
+      e.preventDefault();
+      setShowCommandPalette(open => !open);
+      return;
+    }
+
+    const target = e.target as HTMLElement;
+    // Com os detalhes de uma missão abertos, os atalhos da lista ficam de fora
+    if (missionId !== undefined || target.closest('input, textarea, [contenteditable="true"]')) return;
+
+    // e.code não depende do layout do teclado (Alt+1 no macOS gera "¡" em e.key)
+    const filterDigit = /^Digit([1-4])$/.exec(e.code);
+    if (mod && key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      undo();
+    } else if (mod && ((key === 'z' && e.shiftKey) || key === 'y')) {
+      e.preventDefault();
+      redo();
+    } else if (e.altKey && !mod && filterDigit) {
+      e.preventDefault();
+      saveFilter(FILTERS[Number(filterDigit[1]) - 1]);
+    } else if (key === 'n' && !mod && !e.altKey) {
+      e.preventDefault();
+      focusNewTask();
+    } else if (key === '/' && view === 'missions' && currentList) {
+      e.preventDefault();
+      searchInputRef.current?.focus();
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current?.(e);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // FOCUS TRAP - CONCEITO AVANÇADO DE ACESSIBILIDADE
   // Prende o foco dentro do modal, essencial para usuários que navegam por teclado
   useEffect(() => {
@@ -341,260 +1362,697 @@ const TodoHeroes = () => {
     }
   }, [showDeleteModal]);
 
-  return (
-    <div className="min-h-screen bg-background p-4">
-      <div className="max-w-2xl mx-auto">
-        {/* Header */}
-        <header className="text-center mb-8">
-          <h1 className="text-4xl md:text-5xl font-bold mb-2 hero-gradient bg-clip-text text-transparent">
-            ToDo List
-          </h1>
-          <p className="text-lg text-muted-foreground mb-4">
-            Organize suas missões e conquiste seus objetivos
-          </p>
-          <div className="text-sm text-muted-foreground">
-            <span className="font-medium text-primary">{pendingCount} pendentes</span>
-            <span className="mx-2">•</span>
-            <span className="font-medium text-green-400">{completedCount} concluídas</span>
-          </div>
-        </header>
-
-        {/* Add Task Section */}
-        <div className="bg-card rounded-lg p-6 card-shadow mb-6">
-          <div className="flex gap-3">
-            <Input
-              ref={newTaskInputRef}
-              value={newTaskText}
-              onChange={(e) => setNewTaskText(e.target.value)}
-              onKeyPress={(e) => handleKeyPress(e, () => addTask(newTaskText))}
-              placeholder="Descreva sua missão..."
-              className="flex-1 transition-smooth focus:ring-2 focus:ring-primary"
+  // TELA DE RECUPERAÇÃO - substitui a lista enquanto houver dados danificados para revisar
+  if (pendingRecovery || showQuarantine) {
+    return (
+      <div className="min-h-screen bg-background p-4">
+        <div className="max-w-2xl mx-auto">
+          {pendingRecovery ? (
+            <RecoveryScreen
+              mode="load"
+              damaged={pendingRecovery.result.damaged}
+              validCount={pendingRecovery.result.tasks.length}
+              onExport={() => exportDamagedData(pendingRecovery.result.damaged, pendingRecovery.result.tasks)}
+              onContinue={continueRecovery}
             />
-            <Button
-              onClick={() => addTask(newTaskText)}
-              className="hero-gradient hover:opacity-90 transition-smooth px-6"
-            >
-              Adicionar missão
-            </Button>
-          </div>
+          ) : (
+            <RecoveryScreen
+              mode="review"
+              damaged={quarantine}
+              onExport={() => exportDamagedData(quarantine)}
+              onDiscard={discardQuarantine}
+              onClose={() => setShowQuarantine(false)}
+            />
+          )}
         </div>
+      </div>
+    );
+  }
 
-        {/* Action Bar */}
-        <div className="flex flex-wrap gap-4 justify-between items-center mb-6">
-          {/* Filters */}
-          <div className="flex gap-2">
-            {[
-              { key: 'all', label: 'Todas' },
-              { key: 'pending', label: 'Pendentes' },
-              { key: 'completed', label: 'Concluídas' }
-            ].map(({ key, label }) => (
-              <Button
-                key={key}
-                variant={filter === key ? "default" : "outline"}
-                size="sm"
-                onClick={() => saveFilter(key as Filter)}
-                className={`transition-smooth ${
-                  filter === key ? 'filter-active' : 'hover:border-primary'
-                }`}
-              >
-                {label}
-              </Button>
-            ))}
-          </div>
+  return (
+    <SidebarProvider>
+      <ListSidebar
+        lists={lists}
+        activeListId={currentListId}
+        counts={listCounts}
+        onCreate={createList}
+        onRename={renameList}
+        onDelete={deleteList}
+        onMove={reorderList}
+        linkSearch={getListSearch(searchParams)}
+      />
+      <SidebarInset>
+        <div className="min-h-screen bg-background p-4">
+          <div className="max-w-2xl mx-auto">
+            {/* Header */}
+            <SidebarTrigger className="absolute left-4 top-4" aria-label="Mostrar listas" />
+            <header className="text-center mb-8">
+              <h1 className="text-4xl md:text-5xl font-bold mb-2 hero-gradient bg-clip-text text-transparent">
+                ToDo List
+              </h1>
+              <p className="text-lg text-muted-foreground mb-4">
+                Organize suas missões e conquiste seus objetivos
+              </p>
+              {currentList && (
+                <h2 className="text-xl font-semibold mb-2">{currentList.name}</h2>
+              )}
+              <div className="text-sm text-muted-foreground">
+                <span className="font-medium text-primary">{pendingCount} pendentes</span>
+                <span className="mx-2">•</span>
+                <span className="font-medium text-green-400">{completedCount} concluídas</span>
+                {overdueCount > 0 && (
+                  <>
+                    <span className="mx-2">•</span>
+                    <span className="font-medium text-destructive">{overdueCount} atrasadas</span>
+                  </>
+                )}
+              </div>
+              <HeroStatus profile={profile} levelInfo={levelInfo} />
+              <StreakStatus streak={streak} />
+              <nav aria-label="Seções" className="flex justify-center gap-2 mt-4">
+                <Button asChild size="sm" variant={view === 'missions' ? 'default' : 'ghost'}>
+                  <NavLink to={{ pathname: '/', search: getListSearch(searchParams) }} end>Missões</NavLink>
+                </Button>
+                <Button asChild size="sm" variant={view === 'archive' ? 'default' : 'ghost'} className="gap-1">
+                  <NavLink to="/archive">
+                    <Archive size={14} /> Arquivo
+                  </NavLink>
+                </Button>
+                <Button asChild size="sm" variant={view === 'trash' ? 'default' : 'ghost'} className="gap-1">
+                  <NavLink to="/trash">
+                    <Trash2 size={14} /> Lixeira{trashedTasks.length > 0 && ` (${trashedTasks.length})`}
+                  </NavLink>
+                </Button>
+                <Button asChild size="sm" variant={view === 'trophies' ? 'default' : 'ghost'} className="gap-1">
+                  <NavLink to="/trophies">
+                    <Trophy size={14} /> Troféus
+                  </NavLink>
+                </Button>
+              </nav>
+            </header>
 
-          {/* Clear Completed */}
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={clearCompleted}
-            disabled={!hasCompleted}
-            className="transition-smooth hover:border-destructive hover:text-destructive disabled:opacity-50"
-          >
-            Limpar concluídas
-          </Button>
-        </div>
+            {storageError && (
+              <Alert variant="destructive" className="mb-6">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Problema ao carregar os dados</AlertTitle>
+                <AlertDescription>
+                  {storageError} Suas alterações nesta sessão não serão salvas.
+                </AlertDescription>
+              </Alert>
+            )}
 
-        {/* Tasks List */}
-        <div className="space-y-3">
-          {filteredTasks.length === 0 ? (
-            <div className="bg-card rounded-lg p-8 card-shadow text-center">
-              <CheckCircle2 className="mx-auto mb-4 text-muted-foreground" size={48} />
-              <h3 className="text-lg font-medium mb-2 text-muted-foreground">
-                {tasks.length === 0 
-                  ? 'Sem missões por enquanto'
-                  : filter === 'pending' 
-                    ? 'Nenhuma missão pendente'
-                    : filter === 'completed'
-                      ? 'Nenhuma missão concluída'
-                      : 'Nenhuma missão encontrada'
-                }
-              </h3>
-              <p className="text-muted-foreground">
-                {tasks.length === 0 ? 'Crie a primeira!' : 'Experimente outro filtro'}
-              </p>
-            </div>
-          ) : (
-            // LISTA SEMÂNTICA COM ROLES ARIA - Acessibilidade para leitores de tela
-            <ul role="list" className="space-y-3">
-              {filteredTasks.map((task) => (
-                <li
-                  key={task.id}
-                  role="listitem"  // Define semanticamente como item de lista
-                  className={`bg-card rounded-lg p-4 card-shadow hover:card-shadow-hover transition-smooth ${
-                    task.done ? 'task-completed' : ''
-                  }`}
-                >
-                  <div className="flex items-center gap-3">
-                    <Checkbox
-                      checked={task.done}
-                      onCheckedChange={() => toggleDone(task.id)}
-                      className="transition-fast"
-                      aria-label={`Marcar como ${task.done ? 'pendente' : 'concluída'}`}  // Label para leitores de tela
+            {view === 'missions' && listsLoaded && !currentList && (
+              <div className="bg-card rounded-lg p-8 card-shadow text-center">
+                <h3 className="text-lg font-medium mb-2 text-muted-foreground">Lista não encontrada</h3>
+                <p className="text-muted-foreground">
+                  Ela pode ter sido excluída. <Link to="/" className="text-primary underline">Voltar para {DEFAULT_LIST.name}</Link>
+                </p>
+              </div>
+            )}
+
+            {view === 'missions' && currentList && (
+              <>
+                {/* Add Task Section */}
+                <div className="bg-card rounded-lg p-6 card-shadow mb-6">
+                  <div className="flex gap-3">
+                    <Input
+                      ref={newTaskInputRef}
+                      value={newTaskText}
+                      onChange={(e) => setNewTaskText(e.target.value)}
+                      onKeyPress={(e) => handleKeyPress(e, () => addTask(newTaskText))}
+                      placeholder="Descreva sua missão... (ex: amanhã 18h #etiqueta !alta @nome)"
+                      className="flex-1 transition-smooth focus:ring-2 focus:ring-primary"
                     />
-                    
-                    <div className="flex-1 min-w-0">
-                      {editingId === task.id ? (
-                        <Input
-                          ref={editInputRef}  // Referência DOM para foco automático
-                          value={editText}
-                          onChange={(e) => setEditText(e.target.value)}
-                          onKeyDown={handleEditKeyPress}  // Navegação por teclado
-                          onBlur={saveEdit}               // Salva ao perder foco
-                          className="text-sm transition-smooth"
-                        />
-                      ) : (
-                        <span
-                          className={`text-sm ${task.done ? 'line-through' : ''} cursor-pointer`}
-                          onClick={() => startEdit(task.id, task.text)}
-                        >
-                          {task.text}
-                        </span>
-                      )}
-                    </div>
+                    <DueDatePicker
+                      dueDate={newTaskDueDate}
+                      dueTime={newTaskDueTime}
+                      onChange={(dueDate, dueTime) => {
+                        setNewTaskDueDate(dueDate);
+                        setNewTaskDueTime(dueTime);
+                      }}
+                      className="h-10"
+                    />
+                    <PriorityPicker
+                      priority={newTaskPriority}
+                      onChange={setNewTaskPriority}
+                      className="h-10 w-10 border border-input"
+                    />
+                    <Button
+                      onClick={() => addTask(newTaskText)}
+                      className="hero-gradient hover:opacity-90 transition-smooth px-6"
+                    >
+                      Adicionar missão
+                    </Button>
+                  </div>
+                  <QuickAddPreview result={parseQuickAdd(newTaskText)} tags={tags} />
+                </div>
 
-                    <div className="flex gap-2">
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => startEdit(task.id, task.text)}
-                        className="h-8 w-8 text-muted-foreground hover:text-primary transition-smooth"
-                        aria-label="Editar missão"  // Accessibility label
-                      >
-                        <Pencil size={14} />
-                      </Button>
+                {/* Search */}
+                <div className="mb-4">
+                  <QueryInput
+                    inputRef={searchInputRef}
+                    value={searchQuery}
+                    onChange={updateSearch}
+                    context={{ tags, lists, assignees }}
+                    errors={parsedQuery.errors}
+                  />
+                </div>
+
+                {/* Action Bar */}
+                <div className="flex flex-wrap gap-4 justify-between items-center mb-6">
+                  {/* Filters */}
+                  <div className="flex flex-wrap gap-2">
+                    {[
+                      { key: 'all', label: 'Todas' },
+                      { key: 'pending', label: 'Pendentes' },
+                      { key: 'completed', label: 'Concluídas' },
+                      { key: 'overdue', label: 'Atrasadas' }
+                    ].map(({ key, label }) => (
                       <Button
-                        ref={deleteButtonRef}  // Ref para retorno de foco após modal
-                        size="icon"
-                        variant="ghost"
-                        onClick={() => openDeleteModal(task.id)}
-                        className="h-8 w-8 text-muted-foreground hover:text-destructive transition-smooth"
-                        aria-label="Excluir missão"
+                        key={key}
+                        variant={filter === key ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => saveFilter(key as Filter)}
+                        className={`transition-smooth ${
+                          filter === key ? 'filter-active' : 'hover:border-primary'
+                        }`}
                       >
-                        <Trash2 size={14} />
+                        {label}
                       </Button>
+                    ))}
+                    <SmartListBar
+                      smartLists={smartLists}
+                      query={searchQuery}
+                      onApply={applySmartList}
+                      onSave={saveSmartList}
+                      onDelete={deleteSmartList}
+                    />
+                  </div>
+
+                  <div className="flex gap-2 items-center">
+                    {/* Undo / Redo */}
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      onClick={undo}
+                      disabled={history.past.length === 0}
+                      className="h-9 w-9 transition-smooth hover:border-primary"
+                      aria-label="Desfazer"
+                      title={history.past.length > 0
+                        ? `Desfazer: ${history.past[history.past.length - 1].label} (Ctrl+Z)`
+                        : 'Desfazer (Ctrl+Z)'}
+                    >
+                      <Undo2 size={14} />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      onClick={redo}
+                      disabled={history.future.length === 0}
+                      className="h-9 w-9 transition-smooth hover:border-primary"
+                      aria-label="Refazer"
+                      title={history.future.length > 0
+                        ? `Refazer: ${history.future[0].label} (Ctrl+Shift+Z)`
+                        : 'Refazer (Ctrl+Shift+Z)'}
+                    >
+                      <Redo2 size={14} />
+                    </Button>
+                    <HistoryMenu
+                      history={history}
+                      depth={historyDepth}
+                      onDepthChange={saveHistoryDepth}
+                      onClear={() => saveHistory(EMPTY_HISTORY)}
+                    />
+
+                    {/* Sort */}
+                    <Select value={sortKey} onValueChange={(value) => saveSort(value as SortKey)}>
+                      <SelectTrigger className="h-9 w-[150px] text-sm" aria-label="Ordenar missões">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SORT_OPTIONS.map(({ key, label }) => (
+                          <SelectItem key={key} value={key}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {/* Clear Completed */}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={clearCompleted}
+                      disabled={!hasCompleted}
+                      className="transition-smooth hover:border-destructive hover:text-destructive disabled:opacity-50"
+                    >
+                      Limpar concluídas
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Tag Filters */}
+                <div className="flex flex-wrap gap-2 items-center mb-6">
+                  {tags.map(tag => (
+                    <TagBadge
+                      key={tag.id}
+                      tag={tag}
+                      active={tagFilter.includes(tag.id)}
+                      onClick={() => toggleTagFilter(tag.id)}
+                    />
+                  ))}
+                  {tagFilter.length > 0 && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => saveTagFilter([])}
+                      className="h-6 px-2 text-xs text-muted-foreground"
+                    >
+                      Limpar etiquetas
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setShowTagManager(true)}
+                    className="h-6 px-2 text-xs text-muted-foreground hover:text-primary ml-auto gap-1"
+                  >
+                    <Tags size={12} /> Gerenciar etiquetas
+                  </Button>
+                </div>
+
+                {/* Anúncios de reordenação para leitores de tela */}
+                <p className="sr-only" aria-live="assertive">{reorderAnnouncement}</p>
+
+                {/* Tasks List */}
+                <div className="space-y-3">
+                  {filteredTasks.length === 0 ? (
+                    <div className="bg-card rounded-lg p-8 card-shadow text-center">
+                      <CheckCircle2 className="mx-auto mb-4 text-muted-foreground" size={48} />
+                      <h3 className="text-lg font-medium mb-2 text-muted-foreground">
+                        {listTasks.length === 0 
+                          ? 'Sem missões por enquanto'
+                          : searchQuery
+                            ? `Nenhuma missão encontrada para "${searchQuery}"`
+                          : filter === 'pending' 
+                            ? 'Nenhuma missão pendente'
+                            : filter === 'completed'
+                              ? 'Nenhuma missão concluída'
+                              : filter === 'overdue'
+                                ? 'Nenhuma missão atrasada'
+                                : 'Nenhuma missão encontrada'
+                        }
+                      </h3>
+                      <p className="text-muted-foreground">
+                        {listTasks.length === 0 ? 'Crie a primeira!' : searchQuery ? 'Experimente outra busca ou filtro' : 'Experimente outro filtro'}
+                      </p>
+                    </div>
+                  ) : (
+                    // LISTA SEMÂNTICA COM ROLES ARIA - Acessibilidade para leitores de tela
+                    <ul ref={listRef} role="list" className={`space-y-3 ${draggingId !== null ? 'select-none' : ''}`}>
+                      {filteredTasks.map((task, index) => {
+                        const subtaskProgress = getSubtaskProgress(task);
+                        const bossStatus = getBossStatus(task, tasks, now);
+                        const linkedBoss = bossByLinkedId.get(task.id);
+                        const expanded = expandedIds.includes(task.id);
+
+                        return (
+                          <li
+                            key={task.id}
+                            role="listitem"  // Define semanticamente como item de lista
+                            data-reorder-item
+                            data-task-id={task.id}
+                            tabIndex={-1}  // Permite focar a linha ao chegar pela paleta de comandos
+                            onKeyDown={(e) => handleReorderKeyDown(e, task.id, index)}
+                            className={`relative bg-card rounded-lg p-4 card-shadow hover:card-shadow-hover transition-smooth focus:outline-none focus-visible:ring-2 focus-visible:ring-primary ${
+                              task.done ? 'task-completed' : ''
+                            } ${isOverdue(task, now) || bossStatus?.escaped ? 'task-overdue' : ''} task-priority-${getPriority(task)} ${
+                              draggingId === task.id ? 'reorder-dragging' : ''
+                            } ${dropIndex === index ? 'reorder-drop-before' : ''} ${
+                              dropIndex === filteredTasks.length && index === filteredTasks.length - 1 ? 'reorder-drop-after' : ''
+                            }`}
+                          >
+                            <Collapsible open={expanded} onOpenChange={() => toggleExpanded(task.id)}>
+                              <div className="flex items-center gap-3">
+                                {canReorder && (
+                                  <button
+                                    type="button"
+                                    {...getHandleProps(task.id, index)}
+                                    className="-ml-2 cursor-grab touch-none text-muted-foreground hover:text-primary active:cursor-grabbing rounded focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                                    aria-label={`Mover "${task.text}": arraste ou use Alt+seta para cima/baixo`}
+                                  >
+                                    <GripVertical size={16} />
+                                  </button>
+                                )}
+                                <Checkbox
+                                  checked={task.done}
+                                  onCheckedChange={() => toggleDone(task.id)}
+                                  className="transition-fast"
+                                  aria-label={`Marcar como ${task.done ? 'pendente' : 'concluída'}`}  // Label para leitores de tela
+                                />
+                    
+                                <div className="flex-1 min-w-0">
+                                  {editingId === task.id ? (
+                                    <Input
+                                      ref={editInputRef}  // Referência DOM para foco automático
+                                      value={editText}
+                                      onChange={(e) => setEditText(e.target.value)}
+                                      onKeyDown={handleEditKeyPress}  // Navegação por teclado
+                                      onBlur={saveEdit}               // Salva ao perder foco
+                                      className="text-sm transition-smooth"
+                                    />
+                                  ) : (
+                                    <span
+                                      className={`text-sm ${task.done ? 'line-through' : ''} ${
+                                        isHighPriority(task) && !task.done ? 'font-semibold' : ''
+                                      } cursor-pointer`}
+                                      onClick={() => startEdit(task.id, task.text)}
+                                    >
+                                      <HighlightedText text={task.text} query={parsedQuery.text} />
+                                    </span>
+                                  )}
+                                  {task.recurrence && (
+                                    <p
+                                      className="text-[11px] text-muted-foreground mt-0.5"
+                                      title={task.completionHistory?.map(at => new Date(at).toLocaleDateString('pt-BR')).join(', ')}
+                                    >
+                                      🔁 {describeRecurrence(task.recurrence)}
+                                      {task.completionHistory && task.completionHistory.length > 0 &&
+                                        ` • concluída ${task.completionHistory.length}x antes`}
+                                    </p>
+                                  )}
+                                  {task.boss && bossStatus && (
+                                    <BossHealthBar status={bossStatus} escapesAt={task.boss.escapesAt} now={now} />
+                                  )}
+                                  {linkedBoss && (
+                                    <p className="text-[11px] text-muted-foreground mt-0.5">
+                                      ⚔️ Golpe contra o chefe "{linkedBoss.text}"
+                                    </p>
+                                  )}
+                                  {((task.tagIds && task.tagIds.length > 0) || task.assignee) && (
+                                    <div className="flex flex-wrap gap-1 mt-1">
+                                      {task.assignee && (
+                                        <Badge variant="secondary" className="gap-1 px-2 py-0 text-[10px] font-medium">
+                                          <User size={10} /> {task.assignee}
+                                        </Badge>
+                                      )}
+                                      {task.tagIds?.map(tagId => tagsById.get(tagId)).filter(Boolean).map(tag => (
+                                        <TagBadge key={tag.id} tag={tag} className="px-2 py-0 text-[10px]" />
+                                      ))}
+                                    </div>
+                                  )}
+                                </div>
+
+                                <div className="flex gap-2">
+                                  <CollapsibleTrigger asChild>
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      className={`h-8 px-2 gap-1 text-xs transition-smooth ${
+                                        expanded ? 'text-primary' : 'text-muted-foreground'
+                                      }`}
+                                      aria-label={
+                                        subtaskProgress.total > 0
+                                          ? `Sub-missões: ${subtaskProgress.done} de ${subtaskProgress.total} concluídas`
+                                          : 'Adicionar sub-missões'
+                                      }
+                                    >
+                                      <ListChecks size={14} />
+                                      {subtaskProgress.total > 0 && (
+                                        <span>{subtaskProgress.done}/{subtaskProgress.total}</span>
+                                      )}
+                                    </Button>
+                                  </CollapsibleTrigger>
+                                  <DueDatePicker
+                                    dueDate={task.dueDate}
+                                    dueTime={task.dueTime}
+                                    overdue={isOverdue(task, now)}
+                                    onChange={(dueDate, dueTime) => updateTaskDue(task.id, dueDate, dueTime)}
+                                    className="h-8 px-2"
+                                  />
+                                  <PriorityPicker
+                                    priority={getPriority(task)}
+                                    onChange={(priority) => updateTaskPriority(task.id, priority)}
+                                  />
+                                  <RecurrencePicker
+                                    recurrence={task.recurrence}
+                                    onChange={(recurrence) => updateTaskRecurrence(task.id, recurrence)}
+                                  />
+                                  {lists.length > 1 && (
+                                    <MoveToListMenu
+                                      lists={lists}
+                                      listId={getListId(task, lists)}
+                                      onMove={(targetListId) => moveTaskToList(task.id, targetListId)}
+                                    />
+                                  )}
+                                  <TagPicker
+                                    tags={tags}
+                                    selectedIds={task.tagIds ?? []}
+                                    onToggle={(tagId) => toggleTaskTag(task.id, tagId)}
+                                    onManage={() => setShowTagManager(true)}
+                                  />
+                                  <Button
+                                    asChild
+                                    size="icon"
+                                    variant="ghost"
+                                    className="h-8 w-8 text-muted-foreground hover:text-primary transition-smooth"
+                                  >
+                                    <Link to={getMissionPath(task.id)} aria-label={`Detalhes de "${task.text}"`}>
+                                      <PanelRightOpen size={14} />
+                                    </Link>
+                                  </Button>
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    onClick={() => startEdit(task.id, task.text)}
+                                    className="h-8 w-8 text-muted-foreground hover:text-primary transition-smooth"
+                                    aria-label="Editar missão"  // Accessibility label
+                                  >
+                                    <Pencil size={14} />
+                                  </Button>
+                                  <Button
+                                    ref={deleteButtonRef}  // Ref para retorno de foco após modal
+                                    size="icon"
+                                    variant="ghost"
+                                    onClick={() => openDeleteModal(task.id)}
+                                    className="h-8 w-8 text-muted-foreground hover:text-destructive transition-smooth"
+                                    aria-label="Excluir missão"
+                                  >
+                                    <Trash2 size={14} />
+                                  </Button>
+                                </div>
+                              </div>
+                              <CollapsibleContent>
+                                <SubtaskList
+                                  task={task}
+                                  onAdd={(text) => addSubtask(task.id, text)}
+                                  onToggle={(subtaskId) => toggleSubtask(task.id, subtaskId)}
+                                  onDelete={(subtaskId) => deleteSubtask(task.id, subtaskId)}
+                                  onAutoCompleteChange={(autoComplete) => setAutoComplete(task.id, autoComplete)}
+                                  highlight={parsedQuery.text}
+                                />
+                              </CollapsibleContent>
+                            </Collapsible>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+
+                {/* Progress Bar (Bonus) */}
+                {listTasks.length > 0 && (
+                  <div className="mt-8 bg-card rounded-lg p-4 card-shadow">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-medium">Progresso das missões</span>
+                      <span className="text-sm text-muted-foreground">
+                        {Math.round(progress * 100)}%
+                      </span>
+                    </div>
+                    <div className="w-full bg-muted rounded-full h-2">
+                      <div
+                        className="hero-gradient h-2 rounded-full transition-smooth"
+                        style={{ width: `${progress * 100}%` }}
+                      />
                     </div>
+                    {highPriorityTasks.length > 0 && (
+                      <div className="flex justify-between items-center mt-3 text-xs">
+                        <span className="font-medium text-orange-400">Alta prioridade</span>
+                        <span className="text-muted-foreground">
+                          {highPriorityDone}/{highPriorityTasks.length} concluídas
+                        </span>
+                      </div>
+                    )}
                   </div>
-                </li>
-              ))}
-            </ul>
-          )}
-        </div>
+                )}
+              </>
+            )}
 
-        {/* Progress Bar (Bonus) */}
-        {tasks.length > 0 && (
-          <div className="mt-8 bg-card rounded-lg p-4 card-shadow">
-            <div className="flex justify-between items-center mb-2">
-              <span className="text-sm font-medium">Progresso das missões</span>
-              <span className="text-sm text-muted-foreground">
-                {Math.round((completedCount / tasks.length) * 100)}%
-              </span>
-            </div>
-            <div className="w-full bg-muted rounded-full h-2">
-              <div
-                className="hero-gradient h-2 rounded-full transition-smooth"
-                style={{ width: `${(completedCount / tasks.length) * 100}%` }}
+            {view === 'archive' && (
+              <ArchiveView archivedTasks={archivedTasks} onUnarchive={unarchive} />
+            )}
+
+            {view === 'trash' && (
+              <TrashView
+                trashedTasks={trashedTasks}
+                retentionDays={trashRetentionDays}
+                now={now}
+                onRestore={restoreTask}
+                onDeleteForever={deleteForever}
+                onRetentionChange={saveTrashRetention}
               />
-            </div>
-          </div>
-        )}
-
-        {/* Delete Confirmation Modal */}
-        {showDeleteModal && (
-          <div
-            className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in"
-            onClick={closeDeleteModal}  // Clique fora fecha modal
-            onKeyDown={handleModalKeyPress}  // Navegação por teclado
-            role="dialog"                    // ARIA role para acessibilidade
-            aria-modal="true"                // Indica que é um modal
-            aria-labelledby="delete-modal-title"      // ID do título (ARIA)
-            aria-describedby="delete-modal-description" // ID da descrição (ARIA)
-          >
-            <div
-              ref={modalRef}  // Referência DOM para focus trap
-              className="relative w-full max-w-md bg-card rounded-2xl border border-primary/20 shadow-2xl animate-scale-in"
-              onClick={(e) => e.stopPropagation()}  // 🛑 STOP PROPAGATION - Evita fechar modal ao clicar dentro
-              style={{
-                background: 'linear-gradient(135deg, hsl(var(--card)) 0%, hsl(var(--card)/0.95) 100%)',
-                borderImage: 'linear-gradient(135deg, #3B2FBF, #6CA4FF) 1',
-              }}
-            >
-              {/* Modal Header */}
-              <div className="flex items-center gap-3 p-6 pb-4">
-                <div className="p-2 rounded-lg bg-destructive/10">
-                  <Trash2 className="w-5 h-5 text-destructive" />
-                </div>
-                <h2 
-                  id="delete-modal-title" 
-                  className="text-lg font-semibold hero-gradient bg-clip-text text-transparent"
-                >
-                  Excluir missão?
-                </h2>
+            )}
+
+            {view === 'trophies' && (
+              <TrophyCase unlocked={achievements} tasks={tasks} now={now} />
+            )}
+
+            {/* key: o nome em edição acompanha mudanças vindas de outra aba */}
+            {view === 'profile' && (
+              <HeroProfileView key={profile.name} profile={profile} levelInfo={levelInfo} onChange={saveProfile} />
+            )}
+
+            {quarantine.length > 0 && (
+              <div className="mt-4 text-center">
                 <Button
-                  size="icon"
-                  variant="ghost"
-                  onClick={closeDeleteModal}
-                  className="ml-auto h-8 w-8 text-muted-foreground hover:text-foreground"
-                  aria-label="Fechar modal"
+                  size="sm"
+                  variant="link"
+                  onClick={() => setShowQuarantine(true)}
+                  className="text-xs text-muted-foreground hover:text-destructive gap-1"
                 >
-                  <X size={16} />
+                  <AlertTriangle size={12} />
+                  {quarantine.length} registro(s) danificado(s) em quarentena
                 </Button>
               </div>
+            )}
+
+            <MissionDetail
+              task={detailTask}
+              open={missionId !== undefined && loaded}
+              tasks={tasks}
+              lists={lists}
+              tags={tags}
+              now={now}
+              onClose={closeMissionDetail}
+              onToggle={toggleDone}
+              onSave={saveTaskDetails}
+              onManageTags={() => setShowTagManager(true)}
+              onAddSubtask={addSubtask}
+              onToggleSubtask={toggleSubtask}
+              onDeleteSubtask={deleteSubtask}
+              onAutoCompleteChange={setAutoComplete}
+              onBossChange={updateTaskBoss}
+            />
+            <CommandPalette
+              open={showCommandPalette}
+              onOpenChange={setShowCommandPalette}
+              tasks={activeTasks}
+              lists={lists}
+              smartLists={smartLists}
+              getTaskListName={getTaskListName}
+              onJumpTo={jumpToTask}
+              onToggle={toggleDone}
+              onEdit={(id) => {
+                jumpToTask(id, false);
+                startEdit(id, tasks.find(task => task.id === id)?.text ?? '');
+              }}
+              onDelete={openDeleteModal}
+              onNewTask={focusNewTask}
+              onFilter={saveFilter}
+              onApplySmartList={applySmartList}
+              onClearCompleted={clearCompleted}
+              onExport={exportMissions}
+              onUndo={undo}
+              onRedo={redo}
+            />
 
-              {/* Modal Content */}
-              <div className="px-6 pb-6">
-                <p 
-                  id="delete-modal-description" 
-                  className="text-sm text-muted-foreground mb-6"
+            <TagManagerDialog
+              open={showTagManager}
+              onOpenChange={setShowTagManager}
+              tags={tags}
+              tagUsage={tagUsage}
+              onCreate={createTag}
+              onUpdate={updateTag}
+              onDelete={deleteTag}
+            />
+
+            {/* Delete Confirmation Modal */}
+            {showDeleteModal && (
+              <div
+                className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-fade-in"
+                onClick={closeDeleteModal}  // Clique fora fecha modal
+                onKeyDown={handleModalKeyPress}  // Navegação por teclado
+                role="dialog"                    // ARIA role para acessibilidade
+                aria-modal="true"                // Indica que é um modal
+                aria-labelledby="delete-modal-title"      // ID do título (ARIA)
+                aria-describedby="delete-modal-description" // ID da descrição (ARIA)
+              >
+                <div
+                  ref={modalRef}  // Referência DOM para focus trap
+                  className="relative w-full max-w-md bg-card rounded-2xl border border-primary/20 shadow-2xl animate-scale-in"
+                  onClick={(e) => e.stopPropagation()}  // 🛑 STOP PROPAGATION - Evita fechar modal ao clicar dentro
+                  style={{
+                    background: 'linear-gradient(135deg, hsl(var(--card)) 0%, hsl(var(--card)/0.95) 100%)',
+                    borderImage: 'linear-gradient(135deg, #3B2FBF, #6CA4FF) 1',
+                  }}
                 >
-                  Tem certeza que deseja excluir a missão{' '}
-                  <span className="font-medium text-foreground truncate inline-block max-w-[200px]">
-                    "{taskPendingDeleteText}"
-                  </span>
-                  ? Esta ação não poderá ser desfeita.
-                </p>
+                  {/* Modal Header */}
+                  <div className="flex items-center gap-3 p-6 pb-4">
+                    <div className="p-2 rounded-lg bg-destructive/10">
+                      <Trash2 className="w-5 h-5 text-destructive" />
+                    </div>
+                    <h2 
+                      id="delete-modal-title" 
+                      className="text-lg font-semibold hero-gradient bg-clip-text text-transparent"
+                    >
+                      Mover para a lixeira?
+                    </h2>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={closeDeleteModal}
+                      className="ml-auto h-8 w-8 text-muted-foreground hover:text-foreground"
+                      aria-label="Fechar modal"
+                    >
+                      <X size={16} />
+                    </Button>
+                  </div>
 
-                {/* Modal Actions */}
-                <div className="flex flex-col-reverse sm:flex-row gap-3 sm:justify-end">
-                  <Button
-                    variant="outline"
-                    onClick={closeDeleteModal}
-                    className="transition-smooth hover:border-primary focus:ring-2 focus:ring-primary"
-                  >
-                    Cancelar
-                  </Button>
-                  <Button
-                    onClick={confirmDeleteTask}
-                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90 focus:ring-2 focus:ring-destructive transition-smooth"
-                  >
-                    Excluir
-                  </Button>
+                  {/* Modal Content */}
+                  <div className="px-6 pb-6">
+                    <p 
+                      id="delete-modal-description" 
+                      className="text-sm text-muted-foreground mb-6"
+                    >
+                      A missão{' '}
+                      <span className="font-medium text-foreground truncate inline-block max-w-[200px]">
+                        "{taskPendingDeleteText}"
+                      </span>
+                      {' '}ficará na lixeira e poderá ser restaurada de lá ou com Ctrl+Z.
+                    </p>
+
+                    {/* Modal Actions */}
+                    <div className="flex flex-col-reverse sm:flex-row gap-3 sm:justify-end">
+                      <Button
+                        variant="outline"
+                        onClick={closeDeleteModal}
+                        className="transition-smooth hover:border-primary focus:ring-2 focus:ring-primary"
+                      >
+                        Cancelar
+                      </Button>
+                      <Button
+                        onClick={confirmDeleteTask}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90 focus:ring-2 focus:ring-destructive transition-smooth"
+                      >
+                        Excluir
+                      </Button>
+                    </div>
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
           </div>
-        )}
-      </div>
-    </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
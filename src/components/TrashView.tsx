@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Task } from '@/lib/tasks';
+import { TRASH_RETENTION_OPTIONS, getPurgeAt } from '@/lib/trash';
+
+interface TrashViewProps {
+  trashedTasks: Task[];
+  retentionDays: number;
+  now: number;
+  onRestore: (id: number) => void;
+  onDeleteForever: (ids: number[]) => void;
+  onRetentionChange: (days: number) => void;
+}
+
+/**
+ * LIXEIRA - lista as missões excluídas, da mais recente para a mais antiga,
+ * com restauração e exclusão definitiva (sempre confirmada).
+ */
+const TrashView = ({
+  trashedTasks,
+  retentionDays,
+  now,
+  onRestore,
+  onDeleteForever,
+  onRetentionChange
+}: TrashViewProps) => {
+  // Ids aguardando confirmação de exclusão definitiva
+  const [pendingPurgeIds, setPendingPurgeIds] = useState<number[] | null>(null);
+  const sorted = [...trashedTasks].sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+
+  const confirmPurge = () => {
+    if (pendingPurgeIds) onDeleteForever(pendingPurgeIds);
+    setPendingPurgeIds(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          Apagar automaticamente após
+          <Select value={String(retentionDays)} onValueChange={(value) => onRetentionChange(Number(value))}>
+            <SelectTrigger className="h-9 w-[110px] text-sm" aria-label="Prazo de retenção da lixeira">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRASH_RETENTION_OPTIONS.map(({ days, label }) => (
+                <SelectItem key={days} value={String(days)}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPendingPurgeIds(sorted.map(task => task.id))}
+          disabled={sorted.length === 0}
+          className="transition-smooth hover:border-destructive hover:text-destructive disabled:opacity-50"
+        >
+          Esvaziar lixeira
+        </Button>
+      </div>
+
+      {sorted.length === 0 ? (
+        <div className="bg-card rounded-lg p-8 card-shadow text-center">
+          <Trash2 className="mx-auto mb-4 text-muted-foreground" size={48} />
+          <h3 className="text-lg font-medium mb-2 text-muted-foreground">A lixeira está vazia</h3>
+          <p className="text-muted-foreground">Missões excluídas aparecem aqui</p>
+        </div>
+      ) : (
+        <ul role="list" className="space-y-3">
+          {sorted.map(task => {
+            const purgeAt = getPurgeAt(task, retentionDays);
+            return (
+              <li key={task.id} role="listitem" className="bg-card rounded-lg p-4 card-shadow transition-smooth">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm truncate ${task.done ? 'line-through text-muted-foreground' : ''}`}>
+                      {task.text}
+                    </p>
+                    <p className="text-[11px] text-muted-foreground mt-0.5">
+                      Excluída {formatDistanceToNow(task.deletedAt, { locale: ptBR, addSuffix: true })}
+                      {purgeAt && ` • apagada de vez ${formatDistanceToNow(Math.max(purgeAt, now), { locale: ptBR, addSuffix: true })}`}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onRestore(task.id)}
+                    className="h-8 gap-1 text-muted-foreground hover:text-primary transition-smooth"
+                  >
+                    <RotateCcw size={14} /> Restaurar
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setPendingPurgeIds([task.id])}
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive transition-smooth"
+                    aria-label="Excluir definitivamente"
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <AlertDialog open={pendingPurgeIds !== null} onOpenChange={(open) => !open && setPendingPurgeIds(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir definitivamente?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingPurgeIds?.length === 1
+                ? 'A missão será apagada para sempre.'
+                : `${pendingPurgeIds?.length ?? 0} missões serão apagadas para sempre.`}{' '}
+              Esta ação não poderá ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmPurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TrashView;
@@ -0,0 +1,117 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Lock, Trophy } from 'lucide-react';
+import { Task } from '@/lib/tasks';
+import { isTrashed } from '@/lib/trash';
+import { ACHIEVEMENTS, UnlockedAchievements, getAchievementProgress } from '@/lib/achievements';
+
+interface TrophyCaseProps {
+  unlocked: UnlockedAchievements;
+  tasks: Task[];
+  now: number;
+}
+
+const formatDate = (at: number) => format(at, "d 'de' MMM yyyy", { locale: ptBR });
+
+/**
+ * SALA DE TROFÉUS - todas as conquistas, desbloqueadas primeiro.
+ * As bloqueadas mostram o progresso atual em direção à meta.
+ * Cada chefe derrotado (ver lib/boss) ganha uma medalha própria no fim.
+ */
+const TrophyCase = ({ unlocked, tasks, now }: TrophyCaseProps) => {
+  const unlockedCount = ACHIEVEMENTS.filter(achievement => unlocked[achievement.id] !== undefined).length;
+  const achievements = [...ACHIEVEMENTS].sort((a, b) =>
+    Number(unlocked[b.id] !== undefined) - Number(unlocked[a.id] !== undefined)
+  );
+  const defeatedBosses = tasks
+    .filter(task => task.boss?.defeatedAt !== undefined && !isTrashed(task))
+    .sort((a, b) => (b.boss?.defeatedAt ?? 0) - (a.boss?.defeatedAt ?? 0));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-card rounded-lg p-4 card-shadow flex items-center gap-3">
+        <Trophy className="text-yellow-400 shrink-0" size={24} />
+        <div className="flex-1">
+          <p className="font-medium">Sala de troféus</p>
+          <p className="text-sm text-muted-foreground">
+            {unlockedCount} de {ACHIEVEMENTS.length} conquistas desbloqueadas
+          </p>
+        </div>
+      </div>
+
+      <ul className="grid gap-3 sm:grid-cols-2">
+        {achievements.map(achievement => {
+          const unlockedAt = unlocked[achievement.id];
+          const isUnlocked = unlockedAt !== undefined;
+          const value = isUnlocked ? achievement.target : getAchievementProgress(achievement, tasks, now);
+          const progressLabel = achievement.unit
+            ? `${value}${achievement.unit}`
+            : `${value}/${achievement.target}`;
+
+          return (
+            <li
+              key={achievement.id}
+              className={`bg-card rounded-lg p-4 card-shadow transition-smooth ${isUnlocked ? '' : 'opacity-70'}`}
+            >
+              <div className="flex items-start gap-3">
+                <span
+                  className={`text-3xl leading-none ${isUnlocked ? '' : 'grayscale'}`}
+                  aria-hidden="true"
+                >
+                  {achievement.icon}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium flex items-center gap-1">
+                    {achievement.title}
+                    {!isUnlocked && <Lock size={12} className="text-muted-foreground" aria-label="Bloqueada" />}
+                  </p>
+                  <p className="text-sm text-muted-foreground">{achievement.description}</p>
+                </div>
+              </div>
+              {isUnlocked ? (
+                <p className="mt-3 text-xs font-medium text-green-400">
+                  Desbloqueada em {formatDate(unlockedAt)}
+                </p>
+              ) : (
+                <div className="mt-3">
+                  <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                    <span>Progresso</span>
+                    <span>{progressLabel}</span>
+                  </div>
+                  <div className="w-full bg-muted rounded-full h-2">
+                    <div
+                      className="hero-gradient h-2 rounded-full transition-smooth"
+                      style={{ width: `${(value / achievement.target) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {defeatedBosses.length > 0 && (
+        <section className="space-y-3">
+          <h2 className="font-medium">Chefes derrotados</h2>
+          <ul className="grid gap-3 sm:grid-cols-2">
+            {defeatedBosses.map(boss => (
+              <li key={boss.id} className="bg-card rounded-lg p-4 card-shadow flex items-start gap-3">
+                <span className="text-3xl leading-none" aria-hidden="true">👹</span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium break-words">{boss.text}</p>
+                  <p className="text-xs text-green-400">
+                    Derrotado em {formatDate(boss.boss?.defeatedAt ?? 0)}
+                    {boss.xp !== undefined && ` • ${boss.xp} XP`}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default TrophyCase;
@@ -0,0 +1,26 @@
+import * as React from "react"
+import { SyncChannel, SyncMessage, openSyncChannel } from "@/lib/sync"
+
+/**
+ * Mantém um canal aberto com as outras abas do app enquanto o componente
+ * estiver montado. Retorna a função para publicar mudanças locais.
+ */
+export function useCrossTabSync(onMessage: (message: SyncMessage) => void) {
+  const channelRef = React.useRef<SyncChannel | null>(null)
+  // Guarda sempre a versão mais recente do callback sem reabrir o canal
+  const onMessageRef = React.useRef(onMessage)
+  onMessageRef.current = onMessage
+
+  React.useEffect(() => {
+    const channel = openSyncChannel((message) => onMessageRef.current(message))
+    channelRef.current = channel
+    return () => {
+      channel.close()
+      channelRef.current = null
+    }
+  }, [])
+
+  return React.useCallback((message: SyncMessage) => {
+    channelRef.current?.publish(message)
+  }, [])
+}
@@ -0,0 +1,56 @@
+import * as React from "react"
+
+interface DragState {
+  id: number
+  fromIndex: number
+  overIndex: number  // Vão onde o item cairia: 0 = antes do primeiro, n = depois do último
+}
+
+/**
+ * Arrastar para reordenar com Pointer Events, o que cobre mouse, toque e
+ * caneta com o mesmo código. Os itens são os elementos com
+ * `data-reorder-item` dentro de `listRef`; o vão de destino é escolhido
+ * comparando o ponteiro com o meio de cada item.
+ */
+export function usePointerReorder(onReorder: (id: number, toIndex: number) => void) {
+  const listRef = React.useRef<HTMLUListElement>(null)
+  const [drag, setDrag] = React.useState<DragState | null>(null)
+
+  const getSlotAt = (clientY: number) => {
+    const items = Array.from(listRef.current?.querySelectorAll<HTMLElement>("[data-reorder-item]") ?? [])
+    const index = items.findIndex((item) => {
+      const rect = item.getBoundingClientRect()
+      return clientY < rect.top + rect.height / 2
+    })
+    return index === -1 ? items.length : index
+  }
+
+  const getHandleProps = (id: number, index: number) => ({
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      if (e.button !== 0) return
+      // Captura o ponteiro para continuar recebendo eventos fora do puxador
+      e.currentTarget.setPointerCapture(e.pointerId)
+      setDrag({ id, fromIndex: index, overIndex: index })
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLElement>) => {
+      if (!drag) return
+      const overIndex = getSlotAt(e.clientY)
+      if (overIndex !== drag.overIndex) setDrag({ ...drag, overIndex })
+    },
+    onPointerUp: () => {
+      if (!drag) return
+      // Sem o item arrastado, os vãos depois dele andam uma posição
+      const toIndex = drag.overIndex > drag.fromIndex ? drag.overIndex - 1 : drag.overIndex
+      if (toIndex !== drag.fromIndex) onReorder(drag.id, toIndex)
+      setDrag(null)
+    },
+    onPointerCancel: () => setDrag(null),
+  })
+
+  // Vão a destacar; null quando soltar ali não mudaria nada
+  const dropIndex = drag && drag.overIndex !== drag.fromIndex && drag.overIndex !== drag.fromIndex + 1
+    ? drag.overIndex
+    : null
+
+  return { listRef, draggingId: drag?.id ?? null, dropIndex, getHandleProps }
+}
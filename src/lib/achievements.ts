@@ -0,0 +1,161 @@
+import { Task, getPriority } from '@/lib/tasks';
+import { isTrashed } from '@/lib/trash';
+import { isArchived } from '@/lib/archive';
+import { getActivityDay, getCompletionDay, getStreakInfo } from '@/lib/streaks';
+
+/**
+ * CONQUISTAS (BADGES)
+ *
+ * Cada conquista é só uma descrição: em quais eventos ela é avaliada,
+ * a meta e como medir o progresso a partir das missões. Para criar uma
+ * nova basta acrescentar um item em ACHIEVEMENTS.
+ *
+ * Os eventos (TaskEvent) são emitidos por addTask, toggleDone e
+ * clearCompleted já com a lista de missões resultante. Uma conquista
+ * desbloqueada fica gravada com a data (UnlockedAchievements) e não é
+ * perdida se a missão for reativada ou excluída depois.
+ */
+export type TaskEventType = 'added' | 'completed' | 'cleared';
+
+export interface TaskEvent {
+  type: TaskEventType;
+  tasks: Task[];   // Missões depois do evento
+  at: number;
+}
+
+export interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  events: TaskEventType[];
+  target: number;
+  unit?: string;   // Sufixo do progresso (ex: '%'); ausente = "valor/meta"
+  progress: (tasks: Task[], now: number) => number;
+}
+
+// id da conquista -> quando foi desbloqueada
+export type UnlockedAchievements = Record<string, number>;
+
+const getCompleted = (tasks: Task[]) => tasks.filter(task => task.done && !isTrashed(task));
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first-mission',
+    title: 'Primeira missão',
+    description: 'Conclua sua primeira missão',
+    icon: '🎯',
+    events: ['completed'],
+    target: 1,
+    progress: tasks => getCompleted(tasks).length
+  },
+  {
+    id: 'ten-missions',
+    title: 'Dez missões',
+    description: 'Conclua 10 missões',
+    icon: '🛡️',
+    events: ['completed'],
+    target: 10,
+    progress: tasks => getCompleted(tasks).length
+  },
+  {
+    id: 'hundred-missions',
+    title: 'Centenário',
+    description: 'Conclua 100 missões',
+    icon: '🏆',
+    events: ['completed'],
+    target: 100,
+    progress: tasks => getCompleted(tasks).length
+  },
+  {
+    id: 'ten-in-a-day',
+    title: 'Dia produtivo',
+    description: 'Conclua 10 missões no mesmo dia',
+    icon: '⚡',
+    events: ['completed'],
+    target: 10,
+    progress: (tasks, now) => {
+      const today = getActivityDay(now);
+      return getCompleted(tasks).filter(task => getCompletionDay(task) === today).length;
+    }
+  },
+  {
+    id: 'clear-all-pending',
+    title: 'Tudo em dia',
+    description: 'Conclua todas as missões pendentes',
+    icon: '🧹',
+    events: ['completed'],
+    target: 100,
+    unit: '%',
+    progress: tasks => {
+      const active = tasks.filter(task => !isTrashed(task) && !isArchived(task));
+      if (active.length === 0) return 0;
+      return Math.floor((active.filter(task => task.done).length / active.length) * 100);
+    }
+  },
+  {
+    id: 'dragon-slayer',
+    title: 'Caçador de dragões',
+    description: 'Conclua 5 missões de prioridade crítica',
+    icon: '🐉',
+    events: ['completed'],
+    target: 5,
+    progress: tasks => getCompleted(tasks).filter(task => getPriority(task) === 'critical').length
+  },
+  {
+    id: 'strategist',
+    title: 'Estrategista',
+    description: 'Tenha 25 missões criadas',
+    icon: '🗺️',
+    events: ['added'],
+    target: 25,
+    progress: tasks => tasks.filter(task => !isTrashed(task)).length
+  },
+  {
+    id: 'archivist',
+    title: 'Arquivista',
+    description: 'Guarde 10 missões concluídas no arquivo',
+    icon: '📜',
+    events: ['cleared'],
+    target: 10,
+    progress: tasks => tasks.filter(task => isArchived(task) && !isTrashed(task)).length
+  },
+  {
+    id: 'boss-slayer',
+    title: 'Caça-chefes',
+    description: 'Derrote um chefe antes que ele fuja',
+    icon: '👹',
+    events: ['completed'],
+    target: 1,
+    progress: tasks => tasks.filter(task => task.boss?.defeatedAt !== undefined && !isTrashed(task)).length
+  },
+  {
+    id: 'streak-7',
+    title: 'Semana em chamas',
+    description: 'Mantenha uma sequência de 7 dias',
+    icon: '🔥',
+    events: ['completed'],
+    target: 7,
+    progress: (tasks, now) => getStreakInfo(tasks, now).best
+  },
+  {
+    id: 'streak-30',
+    title: 'Inabalável',
+    description: 'Mantenha uma sequência de 30 dias',
+    icon: '🌋',
+    events: ['completed'],
+    target: 30,
+    progress: (tasks, now) => getStreakInfo(tasks, now).best
+  }
+];
+
+export const getAchievementProgress = (achievement: Achievement, tasks: Task[], now: number = Date.now()): number =>
+  Math.min(achievement.progress(tasks, now), achievement.target);
+
+// Conquistas ainda bloqueadas que o evento acabou de cumprir
+export const evaluateAchievements = (event: TaskEvent, unlocked: UnlockedAchievements): Achievement[] =>
+  ACHIEVEMENTS.filter(achievement =>
+    unlocked[achievement.id] === undefined &&
+    achievement.events.includes(event.type) &&
+    achievement.progress(event.tasks, event.at) >= achievement.target
+  );
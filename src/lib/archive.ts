@@ -0,0 +1,46 @@
+import { Task } from '@/lib/tasks';
+import { matchesSearch } from '@/lib/search';
+
+/**
+ * ARQUIVO DE MISSÕES CONCLUÍDAS
+ *
+ * "Limpar concluídas" preenche Task.archivedAt em vez de apagar: a missão
+ * sai da lista ativa, mas continua guardada (com completedAt) como registro
+ * do que foi conquistado. Desarquivar só remove o campo.
+ */
+export const ARCHIVE_PAGE_SIZE = 10;
+
+export const isArchived = (task: Task): boolean => task.archivedAt !== undefined;
+
+export const archiveTask = (task: Task, at: number = Date.now()): Task => ({ ...task, archivedAt: at });
+
+export const unarchiveTask = (task: Task): Task => {
+  const { archivedAt: _archivedAt, ...rest } = task;
+  return rest;
+};
+
+// Mais recentes primeiro: pela conclusão e, sem ela, pelo arquivamento
+export const sortArchive = (tasks: Task[]): Task[] =>
+  [...tasks].sort((a, b) => (b.completedAt ?? b.archivedAt ?? 0) - (a.completedAt ?? a.archivedAt ?? 0));
+
+export const searchArchive = (tasks: Task[], query: string): Task[] =>
+  tasks.filter(task => matchesSearch(task, query));
+
+export const getPageCount = (total: number, pageSize: number = ARCHIVE_PAGE_SIZE): number =>
+  Math.max(1, Math.ceil(total / pageSize));
+
+export const getPage = <T>(items: T[], page: number, pageSize: number = ARCHIVE_PAGE_SIZE): T[] =>
+  items.slice((page - 1) * pageSize, page * pageSize);
+
+// Números exibidos na paginação: primeira, última e vizinhas da atual; 'ellipsis' marca os saltos
+export const getPageItems = (page: number, pageCount: number): (number | 'ellipsis')[] => {
+  const items: (number | 'ellipsis')[] = [];
+  for (let current = 1; current <= pageCount; current++) {
+    if (current === 1 || current === pageCount || Math.abs(current - page) <= 1) {
+      items.push(current);
+    } else if (items[items.length - 1] !== 'ellipsis') {
+      items.push('ellipsis');
+    }
+  }
+  return items;
+};
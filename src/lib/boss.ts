@@ -0,0 +1,124 @@
+import { Task, updateTaskDone } from '@/lib/tasks';
+import { isTrashed } from '@/lib/trash';
+
+/**
+ * BATALHAS CONTRA CHEFES
+ *
+ * Uma missão grande pode virar um chefe (Task.boss). Cada golpe é uma
+ * sub-missão ou uma missão vinculada (linkedIds) concluída, e tira
+ * BOSS_HP_PER_HIT de vida. Zerar a vida antes do prazo derrota o chefe:
+ * a missão é concluída, grava defeatedAt (a medalha do chefe) e rende XP
+ * bônus (ver getTaskXp em lib/xp).
+ *
+ * Passado o prazo sem derrota o chefe foge: a missão fica marcada e não
+ * rende mais bônus. Desmarcar um golpe ou reativar a missão desfaz a vitória.
+ */
+export interface BossBattle {
+  startedAt: number;
+  escapesAt: number;       // Prazo da batalha
+  linkedIds?: number[];    // Missões vinculadas que também contam como golpes
+  defeatedAt?: number;
+  defeatHits?: number;     // Golpes (partes de getBossStatus) no momento da derrota
+}
+
+export const BOSS_TIME_LIMIT_OPTIONS: { days: number; label: string }[] = [
+  { days: 3, label: '3 dias' },
+  { days: 7, label: '1 semana' },
+  { days: 14, label: '2 semanas' },
+  { days: 30, label: '30 dias' }
+];
+export const DEFAULT_BOSS_DAYS = 7;
+
+export const BOSS_HP_PER_HIT = 10;
+export const BOSS_BONUS_XP = 50;
+export const BOSS_BONUS_XP_PER_HIT = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const createBossBattle = (days: number, at: number = Date.now()): BossBattle => ({
+  startedAt: at,
+  escapesAt: at + days * DAY_MS
+});
+
+export interface BossStatus {
+  hp: number;
+  maxHp: number;
+  hits: number;
+  totalHits: number;
+  defeated: boolean;
+  escaped: boolean;
+}
+
+// Missões vinculadas ainda existentes (as da lixeira deixam de contar)
+export const getLinkedTasks = (boss: Task, tasks: Task[]): Task[] =>
+  (boss.boss?.linkedIds ?? [])
+    .map(id => tasks.find(task => task.id === id))
+    .filter((task): task is Task => task !== undefined && !isTrashed(task));
+
+export const getBossStatus = (task: Task, tasks: Task[], now: number = Date.now()): BossStatus | null => {
+  if (!task.boss) return null;
+
+  const parts = [...(task.subtasks ?? []), ...getLinkedTasks(task, tasks)];
+  const hits = parts.filter(part => part.done).length;
+  const defeated = task.boss.defeatedAt !== undefined;
+  return {
+    hp: (parts.length - hits) * BOSS_HP_PER_HIT,
+    maxHp: parts.length * BOSS_HP_PER_HIT,
+    hits,
+    totalHits: parts.length,
+    defeated,
+    escaped: !defeated && now >= task.boss.escapesAt
+  };
+};
+
+export const isBossEscaped = (task: Task, tasks: Task[], now: number = Date.now()): boolean =>
+  getBossStatus(task, tasks, now)?.escaped ?? false;
+
+// Bônus pela derrota, pelos golpes contados quando o chefe caiu
+export const getBossBonusXp = (task: Task): number =>
+  task.boss?.defeatedAt !== undefined
+    ? BOSS_BONUS_XP + (task.boss.defeatHits ?? 0) * BOSS_BONUS_XP_PER_HIT
+    : 0;
+
+/**
+ * Aplica vitórias e derrotas depois de uma mudança nas missões:
+ * - o chefe que teve a vida zerada por um golpe agora (e ainda não fugiu) é derrotado
+ *   e concluído; remover partes (excluir sub-missão, desvincular ou mandar para a
+ *   lixeira) também baixa a vida, mas não conta como golpe;
+ * - a vitória é desfeita se a vida voltar a subir ou a missão for reativada.
+ * Ao vencer, o XP da missão é descartado para ser gravado de novo já com o bônus.
+ * Concluir e reativar passam por updateTaskDone, então um chefe recorrente gera
+ * (ou remove) a próxima ocorrência como qualquer outra missão.
+ */
+export const settleBosses = (previous: Task[], next: Task[], at: number = Date.now()): Task[] => {
+  const previousById = new Map(previous.map(task => [task.id, task]));
+  const replace = (tasks: Task[], updated: Task) => tasks.map(task => task.id === updated.id ? updated : task);
+
+  return next.reduce((tasks, task) => {
+    const status = getBossStatus(task, next, at);
+    if (!task.boss || !status) return tasks;
+
+    if (status.defeated) {
+      if (status.hp === 0 && task.done) return tasks;
+      const { defeatedAt: _defeatedAt, defeatHits: _defeatHits, ...battle } = task.boss;
+      return updateTaskDone(replace(tasks, { ...task, boss: battle }), task.id, false);
+    }
+
+    const before = previousById.get(task.id);
+    const previousHits = before ? getBossStatus(before, previous, at)?.hits : undefined;
+    const struck = previousHits !== undefined && status.hits > previousHits;
+    if (status.totalHits === 0 || status.hp > 0 || status.escaped || !struck) return tasks;
+
+    const { xp: _xp, ...rest } = task;
+    const defeated = { ...rest, boss: { ...task.boss, defeatedAt: at, defeatHits: status.totalHits } };
+    return updateTaskDone(replace(tasks, defeated), task.id, true, at);
+  }, next);
+};
+
+// Chefes derrotados nesta mudança (para avisar o jogador)
+export const getNewlyDefeatedBosses = (previous: Task[], next: Task[]): Task[] => {
+  const previousById = new Map(previous.map(task => [task.id, task]));
+  return next.filter(task =>
+    task.boss?.defeatedAt !== undefined && previousById.get(task.id)?.boss?.defeatedAt === undefined
+  );
+};
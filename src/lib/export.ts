@@ -0,0 +1,23 @@
+/**
+ * EXPORTAÇÃO DE DADOS
+ *
+ * Gera um arquivo .json e dispara o download pelo navegador,
+ * usando Blob + um link <a download> criado via DOM.
+ */
+export const downloadJson = (filename: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');  // Link temporário, nunca entra na página
+  link.href = url;
+  link.download = filename;
+  link.click();
+
+  URL.revokeObjectURL(url);  // Libera a memória do Blob
+};
+
+// Ex: "todo-heroes-2025-03-12.json"
+export const exportFilename = (suffix?: string) => {
+  const date = new Date().toISOString().slice(0, 10);
+  return `todo-heroes-${suffix ? `${suffix}-` : ''}${date}.json`;
+};
@@ -0,0 +1,96 @@
+import { Task } from '@/lib/tasks';
+import { TaskChanges, diffTasks, hasChanges } from '@/lib/sync';
+import { MissionList } from '@/lib/lists';
+import { Tag } from '@/lib/tags';
+
+/**
+ * HISTÓRICO DE AÇÕES (DESFAZER / REFAZER)
+ *
+ * Cada entrada guarda só as missões afetadas, nos dois sentidos:
+ * `forward` refaz a ação e `backward` a desfaz. Como as mudanças são
+ * aplicadas missão a missão, desfazer não apaga alterações posteriores em
+ * outras missões (inclusive as que chegaram de outra aba).
+ *
+ * Listas e etiquetas ficam em outras configurações; "Excluir lista" e
+ * "Excluir etiqueta" guardam o item excluído na própria entrada
+ * (deletedList / deletedTag) para desfazer trazê-lo de volta.
+ */
+export interface DeletedList {
+  list: MissionList;
+  index: number;  // Posição na barra lateral
+}
+
+export interface DeletedTag {
+  tag: Tag;
+  index: number;      // Posição no gerenciador de etiquetas
+  filtered: boolean;  // Estava no filtro ativo
+}
+
+// Itens fora das missões que a ação excluiu
+export type DeletedItems = Pick<HistoryEntry, 'deletedList' | 'deletedTag'>;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;  // Ex: "Excluir missão"
+  at: number;
+  forward: TaskChanges;
+  backward: TaskChanges;
+  deletedList?: DeletedList;
+  deletedTag?: DeletedTag;
+}
+
+export interface History {
+  past: HistoryEntry[];    // Mais antiga primeiro; a última é a próxima a desfazer
+  future: HistoryEntry[];  // A primeira é a próxima a refazer
+}
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+export const DEFAULT_HISTORY_DEPTH = 50;
+export const HISTORY_DEPTH_OPTIONS = [10, 25, 50, 100, 200];
+
+export const createHistoryEntry = (
+  label: string,
+  previous: Task[],
+  next: Task[],
+  deleted: DeletedItems = {}
+): HistoryEntry | null => {
+  const previousById = new Map(previous.map(task => [task.id, task]));
+  const diff = diffTasks(previous, next);
+  // Descarta objetos recriados sem mudança real (ex: salvar edição com o mesmo texto)
+  const forward: TaskChanges = {
+    upserted: diff.upserted.filter(task =>
+      JSON.stringify(previousById.get(task.id)) !== JSON.stringify(task)
+    ),
+    removedIds: diff.removedIds
+  };
+  if (!hasChanges(forward) && !deleted.deletedList && !deleted.deletedTag) return null;
+
+  const affectedIds = [...forward.upserted.map(task => task.id), ...forward.removedIds];
+  const backward: TaskChanges = {
+    upserted: affectedIds.filter(id => previousById.has(id)).map(id => previousById.get(id)),
+    removedIds: affectedIds.filter(id => !previousById.has(id))
+  };
+
+  return { id: Date.now(), label, at: Date.now(), forward, backward, ...deleted };
+};
+
+// Uma nova ação descarta o que poderia ser refeito
+export const recordHistory = (history: History, entry: HistoryEntry, depth: number): History => ({
+  past: [...history.past, entry].slice(-depth),
+  future: []
+});
+
+export const trimHistory = (history: History, depth: number): History => ({
+  past: history.past.slice(-depth),
+  future: history.future.slice(0, depth)
+});
+
+// Missões apagadas de vez saem também do histórico: desfazer não pode trazê-las de volta
+const touchesTasks = (entry: HistoryEntry, ids: number[]) =>
+  [...entry.forward.upserted.map(task => task.id), ...entry.forward.removedIds].some(id => ids.includes(id));
+
+export const forgetTasks = (history: History, ids: number[]): History => ({
+  past: history.past.filter(entry => !touchesTasks(entry, ids)),
+  future: history.future.filter(entry => !touchesTasks(entry, ids))
+});
@@ -0,0 +1,49 @@
+import { Task } from '@/lib/tasks';
+
+/**
+ * LISTAS DE MISSÕES (CAMPANHAS)
+ *
+ * As listas ficam numa configuração própria ('lists'), na ordem exibida na
+ * barra lateral. Cada missão aponta para a sua em Task.listId; dados antigos
+ * (sem listId) e missões de listas excluídas caem na lista padrão, que
+ * sempre existe e não pode ser excluída.
+ */
+export interface MissionList {
+  id: number;
+  name: string;
+}
+
+export const DEFAULT_LIST_ID = 0;
+export const DEFAULT_LIST: MissionList = { id: DEFAULT_LIST_ID, name: 'Missões' };
+
+export const normalizeListName = (name: string): string => name.trim().replace(/\s+/g, ' ');
+
+export const findListByName = (lists: MissionList[], name: string): MissionList | undefined => {
+  const normalized = normalizeListName(name).toLowerCase();
+  return lists.find(list => list.name.toLowerCase() === normalized);
+};
+
+// Garante a lista padrão no início, mesmo que o valor salvo a tenha perdido
+export const ensureDefaultList = (lists: MissionList[]): MissionList[] =>
+  lists.some(list => list.id === DEFAULT_LIST_ID) ? lists : [DEFAULT_LIST, ...lists];
+
+export const getListId = (task: Task, lists: MissionList[]): number =>
+  task.listId !== undefined && lists.some(list => list.id === task.listId) ? task.listId : DEFAULT_LIST_ID;
+
+export const getListPath = (listId: number): string =>
+  listId === DEFAULT_LIST_ID ? '/' : `/lists/${listId}`;
+
+// Devolve uma lista excluída à posição original (desfazer "Excluir lista")
+export const restoreList = (lists: MissionList[], list: MissionList, index: number): MissionList[] =>
+  lists.some(item => item.id === list.id) ? lists : [...lists.slice(0, index), list, ...lists.slice(index)];
+
+// Troca a lista de posição com a vizinha (direction: -1 sobe, 1 desce)
+export const moveList = (lists: MissionList[], id: number, direction: -1 | 1): MissionList[] => {
+  const index = lists.findIndex(list => list.id === id);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= lists.length) return lists;
+
+  const reordered = [...lists];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+};
@@ -0,0 +1,119 @@
+/**
+ * MARKDOWN DAS ANOTAÇÕES
+ *
+ * Um subconjunto pequeno, suficiente para notas de missão:
+ *   # títulos (1 a 3), listas com "-", "*" ou "1.", > citações,
+ *   blocos ``` de código, **negrito**, *itálico*, `código` e [links](https://...).
+ *
+ * O texto vira uma árvore de blocos e trechos que o componente MarkdownNotes
+ * transforma em elementos React — nada é inserido como HTML, então não há
+ * como uma anotação injetar scripts. Links só com http(s) ou mailto.
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'code'; text: string };
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+// Ordem importa: código primeiro (nada dentro dele é interpretado), depois links e ênfases
+const INLINE_RULES: { regex: RegExp; build: (match: RegExpExecArray) => MarkdownInline }[] = [
+  { regex: /`([^`]+)`/, build: match => ({ type: 'code', text: match[1] }) },
+  {
+    regex: /\[([^\]]+)\]\(([^)\s]+)\)/,
+    build: match => SAFE_LINK.test(match[2])
+      ? { type: 'link', href: match[2], children: parseInline(match[1]) }
+      : { type: 'text', text: match[0] }
+  },
+  // "_" no meio de palavras (nome_de_arquivo) não é ênfase
+  {
+    regex: /\*\*([^*]+)\*\*|(?<![\p{L}\p{N}])__([^_]+)__(?![\p{L}\p{N}])/u,
+    build: match => ({ type: 'strong', children: parseInline(match[1] ?? match[2]) })
+  },
+  {
+    regex: /\*([^*]+)\*|(?<![\p{L}\p{N}])_([^_]+)_(?![\p{L}\p{N}])/u,
+    build: match => ({ type: 'em', children: parseInline(match[1] ?? match[2]) })
+  }
+];
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  // Procura a regra que casa mais cedo no texto; empate fica com a de maior prioridade
+  let first: { match: RegExpExecArray; build: (match: RegExpExecArray) => MarkdownInline } | null = null;
+  for (const rule of INLINE_RULES) {
+    const match = rule.regex.exec(text);
+    if (match && (!first || match.index < first.match.index)) first = { match, build: rule.build };
+  }
+  if (!first) return text ? [{ type: 'text', text }] : [];
+
+  const { match, build } = first;
+  return [
+    ...(match.index > 0 ? [{ type: 'text' as const, text: text.slice(0, match.index) }] : []),
+    build(match),
+    ...parseInline(text.slice(match.index + match[0].length))
+  ];
+};
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const QUOTE = /^>\s?(.*)$/;
+const FENCE = /^```/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      flushParagraph();
+      const code: string[] = [];
+      // Bloco sem fechamento vai até o fim do texto
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    const item = LIST_ITEM.exec(line);
+    const quote = QUOTE.exec(line);
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) });
+    } else if (item) {
+      flushParagraph();
+      const ordered = item[2] !== undefined;
+      const last = blocks[blocks.length - 1];
+      // Itens seguidos do mesmo tipo formam uma única lista
+      if (last?.type === 'list' && last.ordered === ordered) last.items.push(parseInline(item[3]));
+      else blocks.push({ type: 'list', ordered, items: [parseInline(item[3])] });
+    } else if (quote) {
+      flushParagraph();
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'quote') last.children.push({ type: 'text', text: ' ' }, ...parseInline(quote[1]));
+      else blocks.push({ type: 'quote', children: parseInline(quote[1]) });
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  flushParagraph();
+  return blocks;
+};
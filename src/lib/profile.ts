@@ -0,0 +1,106 @@
+import { Task, getDueTimestamp, getSubtaskProgress, isHighPriority } from '@/lib/tasks';
+
+/**
+ * PERFIL DO HERÓI
+ *
+ * Nome, avatar, classe e moldura ficam numa configuração própria ('profile').
+ * O avatar enviado é reduzido e guardado como data URL, só neste aparelho;
+ * sem imagem, o avatar gerado usa as iniciais do nome sobre cores tiradas
+ * de avatarSeed ("Gerar outro" só troca a semente).
+ *
+ * A classe multiplica o XP de certas missões no momento da conclusão
+ * (ver getTaskXp em lib/xp): trocar de classe não muda o que já foi ganho.
+ * As molduras do avatar são cosméticos liberados por nível.
+ */
+export type HeroClassId = 'warrior' | 'ranger' | 'mage' | 'bard';
+
+export interface HeroClass {
+  id: HeroClassId;
+  name: string;
+  icon: string;
+  description: string;
+  xpMultiplier: (task: Task) => number;
+}
+
+export const HERO_CLASSES: HeroClass[] = [
+  {
+    id: 'warrior',
+    name: 'Guerreiro',
+    icon: '⚔️',
+    description: '+50% de XP em missões de prioridade alta ou crítica',
+    xpMultiplier: task => isHighPriority(task) ? 1.5 : 1
+  },
+  {
+    id: 'ranger',
+    name: 'Patrulheiro',
+    icon: '🏹',
+    description: '+25% de XP em missões concluídas dentro do prazo',
+    xpMultiplier: task => {
+      const due = getDueTimestamp(task);
+      return due !== null && task.completedAt !== undefined && task.completedAt <= due ? 1.25 : 1;
+    }
+  },
+  {
+    id: 'mage',
+    name: 'Mago',
+    icon: '🔮',
+    description: '+50% de XP em missões com sub-missões',
+    xpMultiplier: task => getSubtaskProgress(task).total > 0 ? 1.5 : 1
+  },
+  {
+    id: 'bard',
+    name: 'Bardo',
+    icon: '🎵',
+    description: '+25% de XP em missões de prioridade baixa ou normal',
+    xpMultiplier: task => isHighPriority(task) ? 1 : 1.25
+  }
+];
+
+export const getHeroClass = (id?: HeroClassId): HeroClass | undefined =>
+  HERO_CLASSES.find(heroClass => heroClass.id === id);
+
+export interface AvatarFrame {
+  id: string;
+  name: string;
+  level: number;       // Nível necessário
+  className: string;
+}
+
+export const AVATAR_FRAMES: AvatarFrame[] = [
+  { id: 'simple', name: 'Simples', level: 1, className: 'ring-2 ring-border' },
+  { id: 'bronze', name: 'Bronze', level: 3, className: 'ring-2 ring-orange-700' },
+  { id: 'silver', name: 'Prata', level: 5, className: 'ring-2 ring-slate-300' },
+  { id: 'gold', name: 'Ouro', level: 10, className: 'ring-4 ring-yellow-400' },
+  { id: 'arcane', name: 'Arcano', level: 15, className: 'ring-4 ring-purple-500 shadow-lg shadow-purple-500/40' },
+  { id: 'legend', name: 'Lendária', level: 20, className: 'ring-4 ring-primary shadow-lg shadow-primary/60' }
+];
+
+export interface HeroProfile {
+  name: string;
+  heroClass?: HeroClassId;   // Ausente = sem classe (nenhum bônus)
+  avatar?: string;           // Imagem enviada (data URL)
+  avatarSeed: number;
+  frame: string;             // Id em AVATAR_FRAMES
+}
+
+export const DEFAULT_PROFILE: HeroProfile = { name: 'Herói', avatarSeed: 0, frame: 'simple' };
+export const NAME_MAX_LENGTH = 30;
+
+// Valores salvos por versões antigas ganham os campos novos com o padrão
+export const parseProfile = (saved: string): HeroProfile => ({ ...DEFAULT_PROFILE, ...JSON.parse(saved) });
+
+// Moldura escolhida, desde que o nível ainda a libere (reativar missões pode baixar o nível)
+export const getActiveFrame = (profile: HeroProfile, level: number): AvatarFrame => {
+  const frame = AVATAR_FRAMES.find(item => item.id === profile.frame);
+  return frame && frame.level <= level ? frame : AVATAR_FRAMES[0];
+};
+
+export const getInitials = (name: string): string =>
+  name.trim().split(/\s+/).filter(Boolean).slice(0, 2).map(word => word[0].toUpperCase()).join('') || '?';
+
+// Fundo do avatar gerado: sempre o mesmo para o mesmo nome e semente
+export const getGeneratedAvatarStyle = (profile: HeroProfile): { background: string } => {
+  const hash = [...profile.name].reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) % 360, 0);
+  const hue = (hash + profile.avatarSeed * 137) % 360;
+  return { background: `linear-gradient(135deg, hsl(${hue} 70% 40%), hsl(${(hue + 50) % 360} 85% 60%))` };
+};
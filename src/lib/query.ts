@@ -0,0 +1,326 @@
+import { differenceInCalendarDays, isValid, parseISO, startOfDay } from 'date-fns';
+import { PRIORITY_WEIGHT, Task, getPriority, isOverdue } from '@/lib/tasks';
+import { Tag, findTagByName } from '@/lib/tags';
+import { MissionList, findListByName, getListId } from '@/lib/lists';
+import { PRIORITY_WORDS } from '@/lib/quick-add';
+import { foldText, matchesSearch } from '@/lib/search';
+
+/**
+ * LINGUAGEM DE FILTROS
+ *
+ * "status:pending tag:trabalho due:<7d priority:>=high relatório" mostra as
+ * pendentes com a etiqueta "trabalho", que vencem nos próximos 7 dias, de
+ * prioridade alta ou crítica e com "relatório" no texto.
+ *
+ * - Todos os termos precisam valer ao mesmo tempo; "-" na frente nega o termo.
+ * - Palavras sem campo viram busca de texto (sem acentos, ver lib/search).
+ * - Valores com espaço vão entre aspas: list:"Casa nova".
+ * - Campos desconhecidos ("http://...") também contam como texto.
+ */
+export type QueryField = 'status' | 'tag' | 'priority' | 'due' | 'list' | 'assignee';
+
+export interface QueryContext {
+  tags: Tag[];
+  lists: MissionList[];
+  now: number;
+}
+
+interface QueryCondition {
+  negated: boolean;
+  test: (task: Task) => boolean;
+}
+
+export interface ParsedQuery {
+  conditions: QueryCondition[];
+  text: string;       // Palavras de busca positivas, usadas também no destaque
+  errors: string[];
+}
+
+// Consulta salva, exibida ao lado dos botões de status
+export interface SmartList {
+  id: number;
+  name: string;
+  query: string;
+}
+
+// Nomes aceitos para cada campo (comparados sem acentos); o primeiro é o exibido
+const FIELD_NAMES: Record<QueryField, string[]> = {
+  status: ['status', 'estado'],
+  tag: ['tag', 'etiqueta'],
+  priority: ['priority', 'prioridade'],
+  due: ['due', 'prazo'],
+  list: ['list', 'lista'],
+  assignee: ['assignee', 'responsavel', 'resp']
+};
+
+const FIELD_DESCRIPTIONS: Record<QueryField, string> = {
+  status: 'Pendentes, concluídas ou atrasadas',
+  tag: 'Missões com a etiqueta',
+  priority: 'Prioridade (aceita >=, >, <=, <)',
+  due: 'Prazo: today, <7d, overdue, none...',
+  list: 'Missões da lista',
+  assignee: 'Responsável (@nome)'
+};
+
+const STATUS_VALUES: Record<string, (task: Task, now: number) => boolean> = {
+  all: () => true,
+  todas: () => true,
+  pending: task => !task.done,
+  pendente: task => !task.done,
+  pendentes: task => !task.done,
+  done: task => task.done,
+  completed: task => task.done,
+  concluida: task => task.done,
+  concluidas: task => task.done,
+  overdue: isOverdue,
+  atrasada: isOverdue,
+  atrasadas: isOverdue
+};
+
+const NONE_VALUES = ['none', 'nenhum', 'nenhuma', 'sem'];
+const ANY_VALUES = ['any', 'qualquer', 'com'];
+
+type Comparison = '<' | '<=' | '>' | '>=' | '=';
+
+const COMPARISON_REGEX = /^(<=|>=|<|>|=)?(.*)$/;
+
+const compare = (value: number, comparison: Comparison, target: number): boolean => {
+  switch (comparison) {
+    case '<': return value < target;
+    case '<=': return value <= target;
+    case '>': return value > target;
+    case '>=': return value >= target;
+    default: return value === target;
+  }
+};
+
+// Dias entre hoje e o prazo (negativo = já passou); null sem prazo
+const getDueOffset = (task: Task, now: number): number | null => {
+  if (!task.dueDate) return null;
+  const date = parseISO(task.dueDate);
+  return isValid(date) ? differenceInCalendarDays(date, startOfDay(now)) : null;
+};
+
+const buildDueTest = (value: string, now: number): ((task: Task) => boolean) | null => {
+  if (value === 'today' || value === 'hoje') return task => getDueOffset(task, now) === 0;
+  if (value === 'tomorrow' || value === 'amanha') return task => getDueOffset(task, now) === 1;
+  if (value === 'overdue' || value === 'atrasada') return task => isOverdue(task, now);
+  if (NONE_VALUES.includes(value)) return task => !task.dueDate;
+  if (ANY_VALUES.includes(value)) return task => Boolean(task.dueDate);
+
+  const [, comparison = '=', amount] = COMPARISON_REGEX.exec(value);
+  // <7d = vence em menos de 7 dias (inclui as atrasadas); w/s = semanas
+  const relative = /^(\d{1,4})([dws])?$/.exec(amount);
+  const absolute = parseISO(amount);
+  let target: number;
+  if (relative) {
+    target = Number(relative[1]) * (relative[2] && relative[2] !== 'd' ? 7 : 1);
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(amount) && isValid(absolute)) {
+    target = differenceInCalendarDays(absolute, startOfDay(now));
+  } else {
+    return null;
+  }
+
+  return task => {
+    const offset = getDueOffset(task, now);
+    return offset !== null && compare(offset, comparison as Comparison, target);
+  };
+};
+
+const buildPriorityTest = (value: string): ((task: Task) => boolean) | null => {
+  const [, comparison = '=', word] = COMPARISON_REGEX.exec(value);
+  const priority = PRIORITY_WORDS[word];
+  if (!priority) return null;
+  return task => compare(PRIORITY_WEIGHT[getPriority(task)], comparison as Comparison, PRIORITY_WEIGHT[priority]);
+};
+
+const findField = (name: string): QueryField | undefined =>
+  (Object.keys(FIELD_NAMES) as QueryField[]).find(field => FIELD_NAMES[field].includes(foldText(name)));
+
+// Palavra, campo:valor ou trecho entre aspas (aspas sem fechar vão até o fim)
+const TOKEN_REGEX = /(?:[^\s"]+|"[^"]*"?)+/g;
+
+const unquote = (value: string): string => value.replace(/"/g, '');
+
+export const parseQuery = (input: string, context: QueryContext): ParsedQuery => {
+  const conditions: QueryCondition[] = [];
+  const words: string[] = [];
+  const errors: string[] = [];
+
+  for (const [token] of input.matchAll(TOKEN_REGEX)) {
+    const negated = token.length > 1 && token.startsWith('-');
+    const body = negated ? token.slice(1) : token;
+    const fieldMatch = /^([\p{L}]+):(.*)$/u.exec(body);
+    const field = fieldMatch && findField(fieldMatch[1]);
+
+    if (!field) {
+      const word = unquote(body);
+      if (!word) continue;
+      if (negated) conditions.push({ negated, test: task => matchesSearch(task, word) });
+      else words.push(word);
+      continue;
+    }
+
+    const rawValue = unquote(fieldMatch[2]).trim();
+    // "tag:" ainda sendo digitado não filtra nada
+    if (!rawValue) continue;
+    const value = foldText(rawValue);
+    let test: ((task: Task) => boolean) | null = null;
+
+    switch (field) {
+      case 'status': {
+        const matchesStatus = STATUS_VALUES[value];
+        test = matchesStatus ? task => matchesStatus(task, context.now) : null;
+        break;
+      }
+      case 'priority':
+        test = buildPriorityTest(value);
+        break;
+      case 'due':
+        test = buildDueTest(value, context.now);
+        break;
+      case 'tag': {
+        const tag = findTagByName(context.tags, rawValue);
+        if (!tag) {
+          errors.push(`Etiqueta desconhecida: "${rawValue}"`);
+          test = () => false;
+        } else {
+          test = task => Boolean(task.tagIds?.includes(tag.id));
+        }
+        break;
+      }
+      case 'list': {
+        const list = findListByName(context.lists, rawValue);
+        if (!list) {
+          errors.push(`Lista desconhecida: "${rawValue}"`);
+          test = () => false;
+        } else {
+          test = task => getListId(task, context.lists) === list.id;
+        }
+        break;
+      }
+      case 'assignee': {
+        const name = foldText(rawValue.replace(/^@/, ''));
+        test = NONE_VALUES.includes(name)
+          ? task => !task.assignee
+          : task => foldText(task.assignee ?? '') === name;
+        break;
+      }
+    }
+
+    if (test) conditions.push({ negated, test });
+    else errors.push(`Valor inválido para ${FIELD_NAMES[field][0]}: "${rawValue}"`);
+  }
+
+  return { conditions, text: words.join(' '), errors };
+};
+
+export const matchesQuery = (task: Task, query: ParsedQuery): boolean =>
+  query.conditions.every(condition => condition.test(task) !== condition.negated) &&
+  matchesSearch(task, query.text);
+
+/**
+ * AUTOCOMPLETAR
+ *
+ * Olha só o termo sob o cursor: sem ":" sugere campos; com "campo:" sugere
+ * valores. Cada sugestão traz o trecho [from, to) que ela substitui.
+ */
+export interface QuerySuggestion {
+  label: string;
+  description?: string;
+  insert: string;     // Texto que substitui o termo (campos terminam em ":", valores em espaço)
+  from: number;
+  to: number;
+}
+
+export interface SuggestionContext {
+  tags: Tag[];
+  lists: MissionList[];
+  assignees: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const STATUS_SUGGESTIONS = [
+  { value: 'pending', description: 'Pendentes' },
+  { value: 'done', description: 'Concluídas' },
+  { value: 'overdue', description: 'Atrasadas' }
+];
+
+const PRIORITY_SUGGESTIONS = [
+  { value: 'critical', description: 'Crítica' },
+  { value: 'high', description: 'Alta' },
+  { value: '>=high', description: 'Alta ou crítica' },
+  { value: 'normal', description: 'Normal' },
+  { value: 'low', description: 'Baixa' }
+];
+
+const DUE_SUGGESTIONS = [
+  { value: 'today', description: 'Vence hoje' },
+  { value: 'tomorrow', description: 'Vence amanhã' },
+  { value: '<7d', description: 'Vence nos próximos 7 dias' },
+  { value: '<30d', description: 'Vence nos próximos 30 dias' },
+  { value: 'overdue', description: 'Atrasadas' },
+  { value: 'none', description: 'Sem prazo' }
+];
+
+const quoteIfNeeded = (value: string): string => (/\s/.test(value) ? `"${value}"` : value);
+
+const getValueSuggestions = (field: QueryField, context: SuggestionContext): { value: string; description?: string }[] => {
+  switch (field) {
+    case 'status': return STATUS_SUGGESTIONS;
+    case 'priority': return PRIORITY_SUGGESTIONS;
+    case 'due': return DUE_SUGGESTIONS;
+    case 'tag': return context.tags.map(tag => ({ value: quoteIfNeeded(tag.name) }));
+    case 'list': return context.lists.map(list => ({ value: quoteIfNeeded(list.name) }));
+    case 'assignee': return context.assignees.map(name => ({ value: quoteIfNeeded(name) }));
+  }
+};
+
+export const getQuerySuggestions = (input: string, caret: number, context: SuggestionContext): QuerySuggestion[] => {
+  const before = input.slice(0, caret);
+  // Com aspas ainda abertas o termo começa antes delas (o espaço faz parte do valor)
+  const openQuote = (before.match(/"/g) ?? []).length % 2 === 1 ? before.lastIndexOf('"') : -1;
+  const from = openQuote === -1 ? before.search(/\S*$/) : before.slice(0, openQuote).search(/\S*$/);
+  const to = openQuote === -1 ? caret + input.slice(caret).search(/\s|$/) : caret;
+  const token = input.slice(from, to);
+
+  const prefix = token.startsWith('-') ? '-' : '';
+  const body = token.slice(prefix.length);
+  const separator = body.indexOf(':');
+
+  if (separator === -1) {
+    const typed = foldText(body);
+    return (Object.keys(FIELD_NAMES) as QueryField[])
+      .filter(field => FIELD_NAMES[field].some(name => name.startsWith(typed)))
+      .map(field => ({
+        label: `${FIELD_NAMES[field][0]}:`,
+        description: FIELD_DESCRIPTIONS[field],
+        insert: `${prefix}${FIELD_NAMES[field][0]}:`,
+        from,
+        to
+      }));
+  }
+
+  const field = findField(body.slice(0, separator));
+  if (!field) return [];
+
+  const typed = foldText(unquote(body.slice(separator + 1)));
+  return getValueSuggestions(field, context)
+    .filter(({ value }) => foldText(unquote(value)).startsWith(typed))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ value, description }) => ({
+      label: `${FIELD_NAMES[field][0]}:${value}`,
+      description,
+      insert: `${prefix}${FIELD_NAMES[field][0]}:${value} `,
+      from,
+      to
+    }));
+};
+
+// Aplica a sugestão e devolve o novo texto com a posição do cursor logo após ela
+export const applySuggestion = (input: string, suggestion: QuerySuggestion): { value: string; caret: number } => {
+  const rest = suggestion.insert.endsWith(' ') ? input.slice(suggestion.to).replace(/^\s+/, '') : input.slice(suggestion.to);
+  const value = input.slice(0, suggestion.from) + suggestion.insert + rest;
+  return { value, caret: suggestion.from + suggestion.insert.length };
+};
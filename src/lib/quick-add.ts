@@ -0,0 +1,192 @@
+import { addDays, format, isBefore, isValid, startOfDay } from 'date-fns';
+import { Priority } from '@/lib/tasks';
+import { extractTagTokens } from '@/lib/tags';
+
+/**
+ * ADIÇÃO RÁPIDA EM LINGUAGEM NATURAL (PT / EN)
+ *
+ * "Revisar PR amanhã 18h #trabalho !alta @ana" vira:
+ *   título "Revisar PR", prazo amanhã às 18:00, etiqueta "trabalho",
+ *   prioridade alta e responsável "ana".
+ *
+ * Cada trecho reconhecido é removido do texto; o que sobra é o título.
+ * Só a primeira ocorrência de data e de horário é usada.
+ */
+export interface QuickAddResult {
+  text: string;
+  dueDate?: string;   // 'yyyy-MM-dd'
+  dueTime?: string;   // 'HH:mm'
+  priority?: Priority;
+  tagNames: string[];
+  assignee?: string;
+}
+
+// Início e fim de palavra que funcionam com acentos (\b só entende [A-Za-z0-9_])
+const START = '(?<=^|\\s)';
+const END = '(?=\\s|$|[,.;!?])';
+
+export const PRIORITY_WORDS: Record<string, Priority> = {
+  baixa: 'low',
+  low: 'low',
+  normal: 'normal',
+  media: 'normal',
+  média: 'normal',
+  medium: 'normal',
+  alta: 'high',
+  high: 'high',
+  critica: 'critical',
+  crítica: 'critical',
+  critical: 'critical',
+  urgente: 'critical',
+  urgent: 'critical'
+};
+
+const PRIORITY_REGEX = new RegExp(`${START}!(${Object.keys(PRIORITY_WORDS).join('|')})${END}`, 'iu');
+const ASSIGNEE_REGEX = new RegExp(`${START}@([\\p{L}\\p{N}._-]+)${END}`, 'u');
+
+// Índices de getDay(): 0 = domingo
+const WEEKDAYS: { pattern: string; day: number }[] = [
+  { pattern: 'domingo|sunday', day: 0 },
+  { pattern: 'segunda(?:-feira)?|monday', day: 1 },
+  { pattern: 'ter[çc]a(?:-feira)?|tuesday', day: 2 },
+  { pattern: 'quarta(?:-feira)?|wednesday', day: 3 },
+  { pattern: 'quinta(?:-feira)?|thursday', day: 4 },
+  { pattern: 'sexta(?:-feira)?|friday', day: 5 },
+  { pattern: 's[áa]bado|saturday', day: 6 }
+];
+
+interface DateRule {
+  regex: RegExp;
+  resolve: (match: RegExpMatchArray, today: Date) => Date | null;
+}
+
+const DATE_RULES: DateRule[] = [
+  {
+    regex: new RegExp(`${START}(?:depois de amanh[ãa]|day after tomorrow)${END}`, 'iu'),
+    resolve: (_match, today) => addDays(today, 2)
+  },
+  {
+    regex: new RegExp(`${START}(?:amanh[ãa]|tomorrow)${END}`, 'iu'),
+    resolve: (_match, today) => addDays(today, 1)
+  },
+  {
+    regex: new RegExp(`${START}(?:hoje|today)${END}`, 'iu'),
+    resolve: (_match, today) => today
+  },
+  {
+    regex: new RegExp(`${START}(?:em|in) (\\d{1,3}) (?:dias?|days?)${END}`, 'iu'),
+    resolve: (match, today) => addDays(today, Number(match[1]))
+  },
+  // Dia da semana: sempre a próxima ocorrência depois de hoje ("sexta" numa sexta = semana que vem)
+  ...WEEKDAYS.map(({ pattern, day }) => ({
+    regex: new RegExp(
+      `${START}(?:(?:na|no|nesta|neste|next|on|pr[óo]xim[ao])\\s+)?(?:${pattern})${END}`,
+      'iu'
+    ),
+    resolve: (_match: RegExpMatchArray, today: Date) => addDays(today, ((day - today.getDay() + 6) % 7) + 1)
+  })),
+  // "dia dd/mm" ou dd/mm/aaaa; sem ano, uma data que já passou vai para o ano seguinte.
+  // dd/mm solto não conta, senão frações como "Ler 3/4 do livro" virariam prazo
+  {
+    regex: new RegExp(
+      `${START}(?:(?:dia|em|on)\\s+|(?=\\d{1,2}/\\d{1,2}/\\d{4}))(\\d{1,2})/(\\d{1,2})(?:/(\\d{4}))?${END}`,
+      'iu'
+    ),
+    resolve: (match, today) => {
+      const [, day, month, year] = match;
+      const date = new Date(year ? Number(year) : today.getFullYear(), Number(month) - 1, Number(day));
+      // Dia ou mês inexistente (31/02, 31/13) faria a data "transbordar" para outro mês
+      if (!isValid(date) || date.getDate() !== Number(day) || date.getMonth() !== Number(month) - 1) return null;
+      return !year && isBefore(date, today) ? new Date(date.getFullYear() + 1, date.getMonth(), date.getDate()) : date;
+    }
+  }
+];
+
+interface TimeRule {
+  regex: RegExp;
+  resolve: (match: RegExpMatchArray) => [number, number];
+}
+
+const TIME_PREFIX = '(?:(?:[àa]s|at)\\s+)?';
+
+const TIME_RULES: TimeRule[] = [
+  {
+    regex: new RegExp(`${START}${TIME_PREFIX}(?:meio-dia|noon)${END}`, 'iu'),
+    resolve: () => [12, 0]
+  },
+  {
+    regex: new RegExp(`${START}${TIME_PREFIX}(?:meia-noite|midnight)${END}`, 'iu'),
+    resolve: () => [0, 0]
+  },
+  // 6pm, 6:30pm, 6 pm
+  {
+    regex: new RegExp(`${START}${TIME_PREFIX}(\\d{1,2})(?::(\\d{2}))?\\s?(am|pm)${END}`, 'iu'),
+    resolve: match => {
+      const hour = Number(match[1]) % 12 + (match[3].toLowerCase() === 'pm' ? 12 : 0);
+      return [hour, Number(match[2] ?? 0)];
+    }
+  },
+  // 18h, 18h30, 18:30
+  {
+    regex: new RegExp(`${START}${TIME_PREFIX}(\\d{1,2})(?:h(\\d{2})?|:(\\d{2}))${END}`, 'iu'),
+    resolve: match => [Number(match[1]), Number(match[2] ?? match[3] ?? 0)]
+  }
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const parseQuickAdd = (input: string, now: Date = new Date()): QuickAddResult => {
+  const today = startOfDay(now);
+  const { text: withoutTags, tagNames } = extractTagTokens(input);
+  let text = ` ${withoutTags} `;
+  const result: QuickAddResult = { text: '', tagNames };
+
+  const remove = (match: RegExpMatchArray) => {
+    text = text.slice(0, match.index) + text.slice(match.index + match[0].length);
+  };
+
+  const priorityMatch = text.match(PRIORITY_REGEX);
+  if (priorityMatch) {
+    result.priority = PRIORITY_WORDS[priorityMatch[1].toLowerCase()];
+    remove(priorityMatch);
+  }
+
+  const assigneeMatch = text.match(ASSIGNEE_REGEX);
+  if (assigneeMatch) {
+    result.assignee = assigneeMatch[1];
+    remove(assigneeMatch);
+  }
+
+  for (const rule of DATE_RULES) {
+    const match = text.match(rule.regex);
+    const date = match && rule.resolve(match, today);
+    if (date) {
+      result.dueDate = format(date, 'yyyy-MM-dd');
+      remove(match);
+      break;
+    }
+  }
+
+  for (const rule of TIME_RULES) {
+    const match = text.match(rule.regex);
+    if (!match) continue;
+    const [hour, minute] = rule.resolve(match);
+    if (hour > 23 || minute > 59) continue;
+    result.dueTime = `${pad(hour)}:${pad(minute)}`;
+    // Horário sem data vale para hoje
+    result.dueDate = result.dueDate ?? format(today, 'yyyy-MM-dd');
+    remove(match);
+    break;
+  }
+
+  // Junta os espaços deixados pelos trechos removidos e a pontuação que ficou solta
+  result.text = text
+    .replace(/\s{2,}/g, ' ')
+    .replace(/\s+([,.;!?])/g, '$1')
+    .replace(/^[\s,;]+|[\s,;]+$/g, '');
+  return result;
+};
+
+// Verdadeiro quando algo além do título foi reconhecido (mostra a prévia)
+export const hasQuickAddTokens = (result: QuickAddResult): boolean =>
+  Boolean(result.dueDate || result.priority || result.assignee || result.tagNames.length > 0);
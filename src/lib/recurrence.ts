@@ -0,0 +1,86 @@
+import { addDays, addMonths, format, getDaysInMonth, parseISO, startOfDay } from 'date-fns';
+
+/**
+ * MISSÕES RECORRENTES
+ *
+ * Regras de repetição e o cálculo do próximo prazo.
+ * As datas seguem o mesmo formato de Task.dueDate ('yyyy-MM-dd').
+ */
+
+export type RecurrenceRule =
+  | { type: 'daily'; interval: number }              // A cada N dias (pelo calendário)
+  | { type: 'weekly'; weekdays: number[] }           // Dias da semana (0 = domingo)
+  | { type: 'monthly'; day: number }                 // Todo mês no dia D
+  | { type: 'afterCompletion'; interval: number };   // N dias depois de concluir
+
+export const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  switch (rule.type) {
+    case 'daily':
+      return rule.interval === 1 ? 'Todo dia' : `A cada ${rule.interval} dias`;
+    case 'weekly':
+      return rule.weekdays.length === 7
+        ? 'Todo dia'
+        : [...rule.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ');
+    case 'monthly':
+      return `Todo dia ${rule.day} do mês`;
+    case 'afterCompletion':
+      return rule.interval === 1
+        ? '1 dia após concluir'
+        : `${rule.interval} dias após concluir`;
+  }
+};
+
+// Dia D do mês da data informada; meses curtos usam o último dia (ex: 31 -> 28/fev)
+const onMonthDay = (date: Date, day: number): Date => {
+  const result = new Date(date);
+  result.setDate(Math.min(day, getDaysInMonth(date)));
+  return result;
+};
+
+// Próxima data estritamente depois de `from`, seguindo a regra de calendário
+const nextScheduledDate = (rule: RecurrenceRule, from: Date): Date => {
+  switch (rule.type) {
+    case 'weekly': {
+      const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [from.getDay()];
+      let candidate = addDays(from, 1);
+      while (!weekdays.includes(candidate.getDay())) {
+        candidate = addDays(candidate, 1);
+      }
+      return candidate;
+    }
+    case 'monthly': {
+      const sameMonth = onMonthDay(from, rule.day);
+      return sameMonth > from ? sameMonth : onMonthDay(addMonths(from, 1), rule.day);
+    }
+    default:
+      return addDays(from, Math.max(1, rule.interval));
+  }
+};
+
+/**
+ * Calcula o prazo da próxima ocorrência ao concluir uma missão recorrente.
+ *
+ * - Regras de calendário partem do prazo atual (ou do dia da conclusão, se não houver)
+ *   e avançam até uma data a partir de hoje, para não gerar missões já atrasadas.
+ * - 'afterCompletion' parte sempre do dia em que a missão foi concluída.
+ */
+export const getNextDueDate = (
+  rule: RecurrenceRule,
+  currentDueDate: string | undefined,
+  completedAt: number
+): string => {
+  const completionDay = startOfDay(completedAt);
+
+  if (rule.type === 'afterCompletion') {
+    return format(addDays(completionDay, Math.max(1, rule.interval)), 'yyyy-MM-dd');
+  }
+
+  const parsedDue = currentDueDate ? parseISO(currentDueDate) : null;
+  let next = nextScheduledDate(rule, parsedDue && !isNaN(parsedDue.getTime()) ? parsedDue : completionDay);
+  while (next < completionDay) {
+    next = nextScheduledDate(rule, next);
+  }
+  return format(next, 'yyyy-MM-dd');
+};
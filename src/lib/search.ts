@@ -0,0 +1,74 @@
+import { Task } from '@/lib/tasks';
+
+/**
+ * BUSCA DE TEXTO SEM ACENTOS
+ *
+ * "missao" encontra "Missão" e vice-versa: texto e busca são comparados
+ * sem diacríticos e em minúsculas. Cada palavra da busca precisa aparecer
+ * no título ou em alguma sub-missão, em qualquer ordem.
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Remove acentos caractere a caractere, guardando a posição original de cada
+// caractere normalizado (para destacar o trecho certo no texto acentuado)
+const foldWithPositions = (text: string): { folded: string; positions: number[] } => {
+  let folded = '';
+  const positions: number[] = [];
+  Array.from(text).reduce((index, char) => {
+    const plain = char.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    folded += plain;
+    for (let i = 0; i < plain.length; i++) positions.push(index);
+    return index + char.length;
+  }, 0);
+  positions.push(text.length);
+  return { folded, positions };
+};
+
+export const foldText = (text: string): string => foldWithPositions(text).folded;
+
+export const getSearchTerms = (query: string): string[] =>
+  foldText(query).split(/\s+/).filter(Boolean);
+
+export const matchesSearch = (task: Task, query: string): boolean => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return true;
+
+  const haystack = [task.text, ...(task.subtasks ?? []).map(sub => sub.text)].map(foldText).join('\n');
+  return terms.every(term => haystack.includes(term));
+};
+
+// Divide o texto em trechos comuns e destacados; trechos sobrepostos ou vizinhos se fundem
+export const getHighlightSegments = (text: string, query: string): HighlightSegment[] => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const { folded, positions } = foldWithPositions(text);
+  const ranges: [number, number][] = [];
+  terms.forEach(term => {
+    let from = folded.indexOf(term);
+    while (from !== -1) {
+      ranges.push([positions[from], positions[from + term.length]]);
+      from = folded.indexOf(term, from + term.length);
+    }
+  });
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (end <= cursor) return;
+    const last = segments[segments.length - 1];
+    if (start <= cursor && last?.match) {
+      last.text += text.slice(cursor, end);
+    } else {
+      if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+      segments.push({ text: text.slice(Math.max(start, cursor), end), match: true });
+    }
+    cursor = end;
+  });
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+};
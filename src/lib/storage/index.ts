@@ -0,0 +1,38 @@
+import { createIndexedDbAdapter } from './indexed-db';
+import { createLocalStorageAdapter } from './local-storage';
+import { StorageAdapter } from './types';
+
+export type { StorageAdapter } from './types';
+export { createIndexedDbAdapter } from './indexed-db';
+export { createLocalStorageAdapter } from './local-storage';
+export {
+  CURRENT_SCHEMA_VERSION,
+  MigrationError,
+  commitRecovery,
+  loadQuarantine,
+  migrateStorage,
+  saveQuarantine
+} from './migrations';
+export type { MigrationResult } from './migrations';
+export { TaskSchema, validateTasks } from './schema';
+export type { DamagedRecord } from './schema';
+export { CorruptDataError, STORAGE_PREFIX } from './types';
+
+let adapterPromise: Promise<StorageAdapter> | null = null;
+
+/**
+ * Retorna o adaptador de armazenamento do app (um único por página).
+ * Prefere IndexedDB; se ele não existir ou falhar ao abrir (ex: navegação
+ * privada em alguns navegadores), usa localStorage.
+ */
+export const getStorageAdapter = (): Promise<StorageAdapter> => {
+  if (!adapterPromise) {
+    adapterPromise = typeof indexedDB === 'undefined'
+      ? Promise.resolve(createLocalStorageAdapter())
+      : createIndexedDbAdapter().catch(error => {
+        console.error('IndexedDB unavailable, falling back to localStorage:', error);
+        return createLocalStorageAdapter();
+      });
+  }
+  return adapterPromise;
+};
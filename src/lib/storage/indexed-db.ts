@@ -0,0 +1,191 @@
+import { Task } from '@/lib/tasks';
+import { createLocalStorageAdapter } from './local-storage';
+import { CorruptDataError, StorageAdapter } from './types';
+
+/**
+ * WEB API - INDEXEDDB
+ *
+ * Banco assíncrono do navegador: não bloqueia a thread principal e não tem
+ * o limite de ~5 MB do localStorage. Cada missão é um registro separado,
+ * então salvar uma edição grava só a missão alterada.
+ */
+const DB_NAME = 'todoHeroes';
+const DB_VERSION = 1;
+const TASKS_STORE = 'tasks';
+const SETTINGS_STORE = 'settings';
+
+// Marca que os dados antigos do localStorage já foram importados
+const IMPORTED_FLAG = 'importedFromLocalStorage';
+
+// Dados do localStorage que não couberam no banco; aguardam a tela de recuperação
+const PENDING_IMPORT_KEY = 'pendingImport';
+
+interface PendingImport {
+  raw?: string;         // Lista inteira ilegível (JSON inválido ou truncado)
+  records: unknown[];   // Registros sem id utilizável
+}
+
+// Converte a API de callbacks (onsuccess/onerror) em Promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    // Executado apenas na criação do banco ou quando DB_VERSION aumenta
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TASKS_STORE)) {
+        db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+        db.createObjectStore(SETTINGS_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB bloqueado por outra aba'));
+  });
+
+/**
+ * Na primeira abertura, copia missões e preferências do localStorage.
+ * Os dados originais não são apagados (servem de backup).
+ *
+ * Um JSON ilegível ou registros sem id (que o IndexedDB não tem como gravar)
+ * não impedem a importação: ficam em PENDING_IMPORT_KEY e o adaptador os
+ * entrega em loadTasks, para a validação mandá-los à tela de recuperação.
+ */
+const importFromLocalStorage = async (db: IDBDatabase) => {
+  const flag = await promisify(
+    db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE).get(IMPORTED_FLAG)
+  );
+  if (flag) return;
+
+  const legacy = createLocalStorageAdapter();
+  const pending: PendingImport = { records: [] };
+  let records: unknown[] = [];
+  try {
+    records = await legacy.loadTasks();
+  } catch (error) {
+    if (!(error instanceof CorruptDataError)) throw error;
+    pending.raw = error.raw;
+  }
+
+  // O id é a chave do registro: sem ele (ou repetido) o put falharia ou sobrescreveria outra missão
+  const tasks: Task[] = [];
+  const seenIds = new Set<number>();
+  records.forEach(record => {
+    const id = (record as Partial<Task> | null)?.id;
+    if (typeof id === 'number' && Number.isFinite(id) && !seenIds.has(id)) {
+      seenIds.add(id);
+      tasks.push(record as Task);
+    } else {
+      pending.records.push(record);
+    }
+  });
+
+  const settings: [string, string][] = [];
+  for (const key of ['schemaVersion', 'filter', 'sort', 'tags', 'tagFilter', 'quarantine']) {
+    const value = await legacy.loadSetting(key);
+    if (value !== null) settings.push([key, value]);
+  }
+
+  const transaction = db.transaction([TASKS_STORE, SETTINGS_STORE], 'readwrite');
+  const taskStore = transaction.objectStore(TASKS_STORE);
+  const settingsStore = transaction.objectStore(SETTINGS_STORE);
+  tasks.forEach(task => taskStore.put(task));
+  settings.forEach(([key, value]) => settingsStore.put(value, key));
+  if (pending.raw !== undefined || pending.records.length > 0) {
+    settingsStore.put(JSON.stringify(pending), PENDING_IMPORT_KEY);
+  }
+  settingsStore.put(String(Date.now()), IMPORTED_FLAG);
+  await transactionDone(transaction);
+};
+
+export const createIndexedDbAdapter = async (): Promise<StorageAdapter> => {
+  const db = await openDatabase();
+  await importFromLocalStorage(db);
+
+  const savedPending = await promisify(
+    db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE).get(PENDING_IMPORT_KEY)
+  );
+  let pendingImport: PendingImport | null = typeof savedPending === 'string' ? JSON.parse(savedPending) : null;
+
+  // Última versão gravada de cada missão (JSON), usada para detectar o que mudou
+  const snapshot = new Map<number, string>();
+  // Fila de escrita: garante que gravações rápidas em sequência não se atropelem
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  return {
+    name: 'indexedDB',
+
+    async loadTasks() {
+      const tasks: Task[] = await promisify(
+        db.transaction(TASKS_STORE).objectStore(TASKS_STORE).getAll()
+      );
+      snapshot.clear();
+      tasks.forEach(task => snapshot.set(task.id, JSON.stringify(task)));
+
+      // Importação pendente segue o mesmo caminho de dados danificados do localStorage
+      if (pendingImport?.raw !== undefined) throw new CorruptDataError(pendingImport.raw);
+      return pendingImport ? [...tasks, ...pendingImport.records as Task[]] : tasks;
+    },
+
+    saveTasks(tasks: Task[]) {
+      writeQueue = writeQueue.catch(() => undefined).then(async () => {
+        const changed: Task[] = [];
+        const next = new Map<number, string>();
+        tasks.forEach(task => {
+          const json = JSON.stringify(task);
+          next.set(task.id, json);
+          if (snapshot.get(task.id) !== json) changed.push(task);
+        });
+        const removedIds = [...snapshot.keys()].filter(id => !next.has(id));
+
+        // Gravar a lista significa que a recuperação já foi confirmada
+        if (pendingImport) {
+          const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+          transaction.objectStore(SETTINGS_STORE).delete(PENDING_IMPORT_KEY);
+          await transactionDone(transaction);
+          pendingImport = null;
+        }
+        if (changed.length === 0 && removedIds.length === 0) return;
+
+        const transaction = db.transaction(TASKS_STORE, 'readwrite');
+        const store = transaction.objectStore(TASKS_STORE);
+        changed.forEach(task => store.put(task));
+        removedIds.forEach(id => store.delete(id));
+        await transactionDone(transaction);
+
+        // Só atualiza o snapshot depois da gravação confirmada
+        snapshot.clear();
+        next.forEach((json, id) => snapshot.set(id, json));
+      });
+      return writeQueue;
+    },
+
+    async loadSetting(key: string) {
+      const value = await promisify(
+        db.transaction(SETTINGS_STORE).objectStore(SETTINGS_STORE).get(key)
+      );
+      return typeof value === 'string' ? value : null;
+    },
+
+    async saveSetting(key: string, value: string) {
+      const transaction = db.transaction(SETTINGS_STORE, 'readwrite');
+      transaction.objectStore(SETTINGS_STORE).put(value, key);
+      await transactionDone(transaction);
+    }
+  };
+};
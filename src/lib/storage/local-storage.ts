@@ -0,0 +1,37 @@
+import { Task } from '@/lib/tasks';
+import { CorruptDataError, STORAGE_PREFIX, StorageAdapter } from './types';
+
+// WEB API - LOCALSTORAGE PARA PERSISTÊNCIA DE DADOS
+// localStorage é síncrono e guarda apenas texto: toda a lista vira um único JSON.
+// Mantido por compatibilidade e como alternativa quando o IndexedDB não está disponível.
+export const TASKS_KEY = `${STORAGE_PREFIX}tasks`;
+
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  name: 'localStorage',
+
+  async loadTasks() {
+    const saved = localStorage.getItem(TASKS_KEY);
+    if (!saved) return [];
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(saved);
+    } catch {
+      throw new CorruptDataError(saved);
+    }
+    if (!Array.isArray(parsed)) throw new CorruptDataError(saved);
+    return parsed;
+  },
+
+  async saveTasks(tasks: Task[]) {
+    localStorage.setItem(TASKS_KEY, JSON.stringify(tasks));
+  },
+
+  async loadSetting(key: string) {
+    return localStorage.getItem(`${STORAGE_PREFIX}${key}`);
+  },
+
+  async saveSetting(key: string, value: string) {
+    localStorage.setItem(`${STORAGE_PREFIX}${key}`, value);
+  }
+});
@@ -0,0 +1,158 @@
+import { Task } from '@/lib/tasks';
+import { DamagedRecord, validateTasks } from './schema';
+import { CorruptDataError, StorageAdapter } from './types';
+
+/**
+ * MIGRAÇÕES DE ESQUEMA
+ *
+ * O prefixo 'todoHeroes:v1:' é só o namespace das chaves; a versão real do
+ * formato dos dados fica na preferência 'schemaVersion' (ausente = versão 1).
+ *
+ * Para mudar o formato de Task:
+ *   1. incremente CURRENT_SCHEMA_VERSION
+ *   2. registre em MIGRATIONS a função que converte da versão anterior
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+type Migration = (tasks: unknown[]) => unknown[];
+
+// MIGRATIONS[n] converte dados da versão n para a versão n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: prioridade explícita e data de conclusão nas missões concluídas
+  1: (tasks) => tasks.map((task: Task) => task && typeof task === 'object'
+    ? {
+      ...task,
+      priority: task.priority ?? 'normal',
+      ...(task.done && !task.completedAt && { completedAt: task.createdAt })
+    }
+    : task  // Registros que nem são objetos seguem para a validação (e a quarentena)
+  )
+};
+
+export class MigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly fromVersion: number,
+    public readonly backupKey?: string
+  ) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+export interface MigrationResult {
+  tasks: Task[];              // Apenas missões válidas
+  damaged: DamagedRecord[];   // Registros inválidos, aguardando quarentena
+  fromVersion: number;
+  toVersion: number;
+  backupKey?: string;         // Preferência onde os dados originais foram guardados
+}
+
+export const getBackupKey = (version: number) => `backup:schema-v${version}`;
+
+const QUARANTINE_KEY = 'quarantine';
+
+/**
+ * Lê as missões aplicando, em ordem, as migrações pendentes, e valida cada registro.
+ *
+ * - Antes de migrar, salva uma cópia dos dados originais.
+ * - Se houver registros danificados, NADA é gravado: a interface mostra a tela de
+ *   recuperação e só depois chama commitRecovery().
+ * - Versões desconhecidas ou migrações com erro lançam MigrationError.
+ */
+export const migrateStorage = async (storage: StorageAdapter): Promise<MigrationResult> => {
+  const savedVersion = await storage.loadSetting(SCHEMA_VERSION_KEY);
+  const fromVersion = savedVersion ? Number(savedVersion) : 1;
+
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new MigrationError(`Versão de dados desconhecida: "${savedVersion}"`, fromVersion);
+  }
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new MigrationError(
+      `Os dados foram salvos por uma versão mais nova do app (v${fromVersion}). Atualize a página ou o app.`,
+      fromVersion
+    );
+  }
+
+  let rawTasks: unknown[];
+  try {
+    rawTasks = await storage.loadTasks();
+  } catch (error) {
+    if (!(error instanceof CorruptDataError)) throw error;
+    // A lista inteira está ilegível: vai toda para a quarentena como texto
+    return {
+      tasks: [],
+      damaged: [{ raw: error.raw, issues: ['JSON inválido ou truncado'], quarantinedAt: Date.now() }],
+      fromVersion,
+      toVersion: CURRENT_SCHEMA_VERSION
+    };
+  }
+
+  // Nada salvo ainda: apenas registra a versão atual
+  if (rawTasks.length === 0) {
+    if (fromVersion !== CURRENT_SCHEMA_VERSION) {
+      await storage.saveSetting(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+    }
+    return { tasks: [], damaged: [], fromVersion, toVersion: CURRENT_SCHEMA_VERSION };
+  }
+
+  let migrated = rawTasks;
+  let backupKey: string | undefined;
+  if (fromVersion < CURRENT_SCHEMA_VERSION) {
+    backupKey = getBackupKey(fromVersion);
+    await storage.saveSetting(backupKey, JSON.stringify({
+      savedAt: Date.now(),
+      version: fromVersion,
+      tasks: rawTasks
+    }));
+
+    for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+      const migration = MIGRATIONS[version];
+      if (!migration) {
+        throw new MigrationError(`Migração v${version} → v${version + 1} não encontrada`, fromVersion, backupKey);
+      }
+      try {
+        migrated = migration(migrated);
+      } catch (error) {
+        console.error(`Migration v${version} -> v${version + 1} failed:`, error);
+        throw new MigrationError(`Falha ao converter os dados da v${version} para a v${version + 1}`, fromVersion, backupKey);
+      }
+    }
+  }
+
+  const { valid, damaged } = validateTasks(migrated);
+
+  if (damaged.length === 0 && fromVersion < CURRENT_SCHEMA_VERSION) {
+    await storage.saveTasks(valid);
+    await storage.saveSetting(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+  }
+  return { tasks: valid, damaged, fromVersion, toVersion: CURRENT_SCHEMA_VERSION, backupKey };
+};
+
+export const loadQuarantine = async (storage: StorageAdapter): Promise<DamagedRecord[]> => {
+  const saved = await storage.loadSetting(QUARANTINE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveQuarantine = (storage: StorageAdapter, records: DamagedRecord[]): Promise<void> =>
+  storage.saveSetting(QUARANTINE_KEY, JSON.stringify(records));
+
+/**
+ * Confirma a recuperação: move os registros danificados para a quarentena e
+ * grava apenas as missões válidas, já na versão atual do esquema.
+ */
+export const commitRecovery = async (storage: StorageAdapter, result: MigrationResult): Promise<DamagedRecord[]> => {
+  const quarantine = [...await loadQuarantine(storage), ...result.damaged];
+  await saveQuarantine(storage, quarantine);
+  await storage.saveTasks(result.tasks);
+  await storage.saveSetting(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+  return quarantine;
+};
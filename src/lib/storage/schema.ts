@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { Task } from '@/lib/tasks';
+
+/**
+ * VALIDAÇÃO DOS DADOS SALVOS
+ *
+ * Tudo que vem do armazenamento passa por estes schemas antes de virar estado.
+ * Campos desconhecidos são mantidos (passthrough) para não perder dados de
+ * versões futuras; campos obrigatórios ausentes ou com tipo errado invalidam o registro.
+ */
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'data deve estar no formato aaaa-mm-dd');
+const timeString = z.string().regex(/^\d{2}:\d{2}$/, 'horário deve estar no formato hh:mm');
+
+const SubTaskSchema = z.object({
+  id: z.number(),
+  text: z.string(),
+  done: z.boolean()
+}).passthrough();
+
+const RecurrenceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('daily'), interval: z.number().int().positive() }),
+  z.object({ type: z.literal('weekly'), weekdays: z.array(z.number().int().min(0).max(6)).min(1) }),
+  z.object({ type: z.literal('monthly'), day: z.number().int().min(1).max(31) }),
+  z.object({ type: z.literal('afterCompletion'), interval: z.number().int().positive() })
+]);
+
+const BossBattleSchema = z.object({
+  startedAt: z.number(),
+  escapesAt: z.number(),
+  linkedIds: z.array(z.number()).optional(),
+  defeatedAt: z.number().optional(),
+  defeatHits: z.number().optional()
+}).passthrough();
+
+export const TaskSchema = z.object({
+  id: z.number(),
+  text: z.string(),
+  done: z.boolean(),
+  createdAt: z.number(),
+  dueDate: dateString.optional(),
+  dueTime: timeString.optional(),
+  priority: z.enum(['low', 'normal', 'high', 'critical']).optional(),
+  tagIds: z.array(z.number()).optional(),
+  subtasks: z.array(SubTaskSchema).optional(),
+  autoComplete: z.boolean().optional(),
+  completedAt: z.number().optional(),
+  completedDay: z.string().optional(),
+  recurrence: RecurrenceSchema.optional(),
+  seriesId: z.number().optional(),
+  completionHistory: z.array(z.number()).optional(),
+  nextOccurrenceId: z.number().optional(),
+  deletedAt: z.number().optional(),
+  archivedAt: z.number().optional(),
+  listId: z.number().optional(),
+  order: z.number().optional(),
+  assignee: z.string().optional(),
+  notes: z.string().optional(),
+  updatedAt: z.number().optional(),
+  xp: z.number().optional(),
+  boss: BossBattleSchema.optional()
+}).passthrough();
+
+// Registro que não passou na validação, guardado na quarentena
+export interface DamagedRecord {
+  raw: unknown;           // Conteúdo original, exatamente como estava salvo
+  issues: string[];       // Motivos legíveis ("text: Required", "JSON inválido"...)
+  quarantinedAt: number;
+}
+
+export const validateTasks = (raw: unknown[]): { valid: Task[]; damaged: DamagedRecord[] } => {
+  const valid: Task[] = [];
+  const damaged: DamagedRecord[] = [];
+  const seenIds = new Set<number>();
+
+  raw.forEach(record => {
+    const result = TaskSchema.safeParse(record);
+    if (!result.success) {
+      damaged.push({
+        raw: record,
+        issues: result.error.issues.map(issue => `${issue.path.join('.') || 'registro'}: ${issue.message}`),
+        quarantinedAt: Date.now()
+      });
+      return;
+    }
+    // Ids duplicados fariam duas missões se confundirem na tela
+    if (seenIds.has(result.data.id)) {
+      damaged.push({ raw: record, issues: [`id: duplicado (${result.data.id})`], quarantinedAt: Date.now() });
+      return;
+    }
+    seenIds.add(result.data.id);
+    valid.push(result.data as Task);
+  });
+
+  return { valid, damaged };
+};
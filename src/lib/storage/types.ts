@@ -0,0 +1,30 @@
+import { Task } from '@/lib/tasks';
+
+/**
+ * CONTRATO DE PERSISTÊNCIA
+ *
+ * O componente nunca acessa localStorage/IndexedDB diretamente:
+ * ele conversa apenas com um StorageAdapter.
+ */
+export interface StorageAdapter {
+  readonly name: 'localStorage' | 'indexedDB';
+
+  loadTasks(): Promise<Task[]>;
+  // Recebe a lista completa; cada implementação decide como gravar (blob ou registro a registro)
+  saveTasks(tasks: Task[]): Promise<void>;
+
+  // Preferências pequenas (filtro, ordenação, etiquetas...) guardadas como texto
+  loadSetting(key: string): Promise<string | null>;
+  saveSetting(key: string, value: string): Promise<void>;
+}
+
+// Lançado quando o conteúdo salvo nem chega a ser uma lista (ex: JSON truncado)
+export class CorruptDataError extends Error {
+  constructor(public readonly raw: string) {
+    super('Dados salvos corrompidos');
+    this.name = 'CorruptDataError';
+  }
+}
+
+// Prefixo das chaves usadas desde a primeira versão do app
+export const STORAGE_PREFIX = 'todoHeroes:v1:';
@@ -0,0 +1,98 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { Task } from '@/lib/tasks';
+import { isTrashed } from '@/lib/trash';
+
+/**
+ * SEQUÊNCIA DIÁRIA (STREAK)
+ *
+ * Conta os dias seguidos com ao menos uma missão concluída. Como o XP
+ * (ver lib/xp), tudo é calculado a partir das missões: reativar, excluir
+ * ou desfazer uma conclusão corrige a sequência sozinho.
+ *
+ * Fuso horário e meia-noite:
+ * - O dia de cada conclusão é gravado em Task.completedDay no fuso do
+ *   aparelho naquele momento, então viajar depois não muda dias passados.
+ * - O "dia do herói" só vira às 4h: quem conclui missões de madrugada
+ *   ainda conta para o dia anterior.
+ *
+ * Proteções (streak freeze): cada 7 dias ativos da sequência rendem uma,
+ * até MAX_STREAK_FREEZES. Um dia perdido gasta uma proteção em vez de
+ * zerar a sequência.
+ */
+export const DAY_START_HOUR = 4;
+export const FREEZE_EVERY_DAYS = 7;
+export const MAX_STREAK_FREEZES = 2;
+const HISTORY_DAYS = 14;
+
+// Dia ('yyyy-MM-dd') a que um instante pertence, no fuso atual do aparelho
+export const getActivityDay = (at: number): string =>
+  format(new Date(at - DAY_START_HOUR * 60 * 60 * 1000), 'yyyy-MM-dd');
+
+// Conclusões anteriores a Task.completedDay usam o fuso atual
+export const getCompletionDay = (task: Task): string | null =>
+  task.completedDay ?? (task.completedAt ? getActivityDay(task.completedAt) : null);
+
+export type StreakDayStatus = 'done' | 'frozen' | 'missed' | 'pending';
+
+export interface StreakDay {
+  day: string;
+  status: StreakDayStatus;   // 'pending' = hoje, ainda sem conclusões
+  completed: number;
+}
+
+export interface StreakInfo {
+  current: number;
+  best: number;
+  freezes: number;           // Proteções disponíveis
+  activeToday: boolean;
+  history: StreakDay[];      // Últimos HISTORY_DAYS dias, do mais antigo para hoje
+}
+
+export const getStreakInfo = (tasks: Task[], now: number = Date.now()): StreakInfo => {
+  const completedByDay = new Map<string, number>();
+  tasks
+    .filter(task => task.done && !isTrashed(task))
+    .forEach(task => {
+      const day = getCompletionDay(task);
+      if (day) completedByDay.set(day, (completedByDay.get(day) ?? 0) + 1);
+    });
+
+  const today = getActivityDay(now);
+  const days = [...completedByDay.keys()].sort();
+  // Depois de viajar para oeste, uma conclusão pode estar gravada em "amanhã"
+  const lastDay = days.length > 0 && days[days.length - 1] > today ? days[days.length - 1] : today;
+
+  let current = 0;
+  let best = 0;
+  let freezes = 0;
+  const statusByDay = new Map<string, StreakDayStatus>();
+
+  for (let date = days.length > 0 ? parseISO(days[0]) : parseISO(today); ; date = addDays(date, 1)) {
+    const day = format(date, 'yyyy-MM-dd');
+
+    if (completedByDay.has(day)) {
+      current++;
+      best = Math.max(best, current);
+      if (current % FREEZE_EVERY_DAYS === 0) freezes = Math.min(freezes + 1, MAX_STREAK_FREEZES);
+      statusByDay.set(day, 'done');
+    } else if (day >= today) {
+      // O dia de hoje só conta como perdido quando terminar
+      statusByDay.set(day, 'pending');
+    } else if (current > 0 && freezes > 0) {
+      freezes--;
+      statusByDay.set(day, 'frozen');
+    } else {
+      current = 0;
+      statusByDay.set(day, 'missed');
+    }
+
+    if (day >= lastDay) break;
+  }
+
+  const history = Array.from({ length: HISTORY_DAYS }, (_, index) => {
+    const day = format(addDays(parseISO(today), index - HISTORY_DAYS + 1), 'yyyy-MM-dd');
+    return { day, status: statusByDay.get(day) ?? 'missed', completed: completedByDay.get(day) ?? 0 };
+  });
+
+  return { current, best, freezes, activeToday: completedByDay.has(today), history };
+};
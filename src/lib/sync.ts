@@ -0,0 +1,91 @@
+import { Task } from '@/lib/tasks';
+import { STORAGE_PREFIX } from '@/lib/storage/types';
+
+/**
+ * SINCRONIZAÇÃO ENTRE ABAS
+ *
+ * Cada aba envia apenas o que mudou (missões criadas/alteradas e ids removidos).
+ * Quem recebe aplica as mudanças sobre o próprio estado, então edições em
+ * missões diferentes feitas em abas diferentes nunca se sobrescrevem.
+ */
+export interface TaskChanges {
+  upserted: Task[];
+  removedIds: number[];
+}
+
+export type SyncMessage =
+  | { type: 'tasks'; changes: TaskChanges }
+  | { type: 'setting'; key: string; value: string };
+
+const CHANNEL_NAME = 'todoHeroes';
+// Chave usada só como "carteiro" quando BroadcastChannel não existe
+const FALLBACK_KEY = `${STORAGE_PREFIX}sync`;
+
+export const diffTasks = (previous: Task[], next: Task[]): TaskChanges => {
+  const previousById = new Map(previous.map(task => [task.id, task]));
+  const nextIds = new Set(next.map(task => task.id));
+
+  return {
+    // Comparação por referência: toda alteração cria um novo objeto Task
+    upserted: next.filter(task => previousById.get(task.id) !== task),
+    removedIds: previous.filter(task => !nextIds.has(task.id)).map(task => task.id)
+  };
+};
+
+export const hasChanges = (changes: TaskChanges) =>
+  changes.upserted.length > 0 || changes.removedIds.length > 0;
+
+// Atualiza no lugar as missões existentes e acrescenta as novas ao final
+export const applyTaskChanges = (tasks: Task[], changes: TaskChanges): Task[] => {
+  const upsertedById = new Map(changes.upserted.map(task => [task.id, task]));
+  const removed = new Set(changes.removedIds);
+
+  const merged = tasks
+    .filter(task => !removed.has(task.id))
+    .map(task => upsertedById.get(task.id) ?? task);
+  const existingIds = new Set(merged.map(task => task.id));
+
+  return [...merged, ...changes.upserted.filter(task => !existingIds.has(task.id) && !removed.has(task.id))];
+};
+
+export interface SyncChannel {
+  publish: (message: SyncMessage) => void;
+  close: () => void;
+}
+
+/**
+ * Abre o canal entre abas: BroadcastChannel quando disponível, senão
+ * o evento 'storage' (disparado nas OUTRAS abas quando o localStorage muda).
+ */
+export const openSyncChannel = (onMessage: (message: SyncMessage) => void): SyncChannel => {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => onMessage(event.data);
+    return {
+      publish: (message) => channel.postMessage(message),
+      close: () => channel.close()
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== FALLBACK_KEY || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue).message);
+    } catch (error) {
+      console.error('Error reading sync message:', error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    publish: (message) => {
+      try {
+        // O carimbo de tempo garante que mensagens iguais ainda disparem o evento
+        localStorage.setItem(FALLBACK_KEY, JSON.stringify({ message, sentAt: Date.now() }));
+      } catch (error) {
+        console.error('Error publishing sync message:', error);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+};
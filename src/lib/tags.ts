@@ -0,0 +1,83 @@
+/**
+ * ETIQUETAS (TAGS) DAS MISSÕES
+ *
+ * Cada etiqueta tem nome e cor definidos pelo usuário.
+ * As missões guardam apenas os ids das etiquetas (Task.tagIds).
+ */
+
+export interface Tag {
+  id: number;
+  name: string;
+  color: string;  // Cor em hexadecimal, ex: '#6CA4FF'
+}
+
+// Paleta sugerida no gerenciador (o usuário ainda pode escolher qualquer cor)
+export const TAG_COLORS = [
+  '#6CA4FF',
+  '#3B2FBF',
+  '#4ADE80',
+  '#FACC15',
+  '#FB923C',
+  '#F87171',
+  '#E879F9',
+  '#94A3B8'
+];
+
+// Captura "#palavra" (com acentos, números, - e _), ex: "#infra", "#cliente-x"
+const TAG_TOKEN_REGEX = /(^|\s)#([\p{L}\p{N}_-]+)/gu;
+
+export const normalizeTagName = (name: string): string =>
+  name.trim().replace(/^#/, '').toLowerCase();
+
+export const findTagByName = (tags: Tag[], name: string): Tag | undefined => {
+  const normalized = normalizeTagName(name);
+  return tags.find(tag => normalizeTagName(tag.name) === normalized);
+};
+
+// Devolve uma etiqueta excluída à posição original (desfazer "Excluir etiqueta")
+export const restoreTag = (tags: Tag[], tag: Tag, index: number): Tag[] =>
+  tags.some(item => item.id === tag.id) ? tags : [...tags.slice(0, index), tag, ...tags.slice(index)];
+
+/**
+ * Separa as etiquetas digitadas inline do texto da missão.
+ * "Deploy #infra #cliente" -> { text: 'Deploy', tagNames: ['infra', 'cliente'] }
+ */
+export const extractTagTokens = (input: string): { text: string; tagNames: string[] } => {
+  const tagNames: string[] = [];
+  const text = input
+    .replace(TAG_TOKEN_REGEX, (_match, leading: string, name: string) => {
+      if (!tagNames.some(existing => normalizeTagName(existing) === normalizeTagName(name))) {
+        tagNames.push(name);
+      }
+      return leading;
+    })
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+
+  return { text, tagNames };
+};
+
+/**
+ * Converte nomes em ids, criando as etiquetas que ainda não existem.
+ * Retorna a lista de etiquetas atualizada junto com os ids encontrados.
+ */
+export const resolveTagNames = (tags: Tag[], tagNames: string[]): { tags: Tag[]; tagIds: number[] } => {
+  const nextTags = [...tags];
+  const tagIds: number[] = [];
+  let nextId = Date.now();
+
+  tagNames.forEach(name => {
+    let tag = findTagByName(nextTags, name);
+    if (!tag) {
+      tag = {
+        id: nextId++,
+        name: normalizeTagName(name),
+        color: TAG_COLORS[nextTags.length % TAG_COLORS.length]
+      };
+      nextTags.push(tag);
+    }
+    if (!tagIds.includes(tag.id)) tagIds.push(tag.id);
+  });
+
+  return { tags: nextTags, tagIds };
+};
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { Task, getPriority } from '@/lib/tasks';
+import { MissionList, getListId } from '@/lib/lists';
+import { RecurrenceRule } from '@/lib/recurrence';
+
+/**
+ * FORMULÁRIO DE DETALHES DA MISSÃO
+ *
+ * Validação (zod, usada pelo react-hook-form) e conversão entre a missão
+ * e os valores do formulário. Campos opcionais vazios somem da missão em
+ * vez de ficarem gravados como string vazia. Sub-missões e a conclusão
+ * automática são editadas à parte (SubtaskList), direto na missão.
+ */
+export const NOTES_MAX_LENGTH = 10000;
+
+export const TaskDetailsSchema = z.object({
+  text: z.string().trim().min(1, 'Dê um nome à missão').max(200, 'Use no máximo 200 caracteres'),
+  notes: z.string().max(NOTES_MAX_LENGTH, `Use no máximo ${NOTES_MAX_LENGTH} caracteres`),
+  dueDate: z.string().optional(),
+  dueTime: z.string().optional(),
+  priority: z.enum(['low', 'normal', 'high', 'critical']),
+  listId: z.number(),
+  // Mesmo formato do "@nome" da adição rápida (ver lib/quick-add)
+  assignee: z.string().trim().max(40, 'Use no máximo 40 caracteres')
+    .regex(/^@?[\p{L}\p{N}._-]*$/u, 'Use só letras, números, ".", "-" ou "_" (sem espaços)'),
+  tagIds: z.array(z.number()),
+  recurrence: z.custom<RecurrenceRule>().optional()
+}).refine(details => !details.dueTime || details.dueDate, {
+  path: ['dueTime'],
+  message: 'Escolha uma data para usar horário'
+});
+
+export type TaskDetails = z.infer<typeof TaskDetailsSchema>;
+
+export const getTaskDetails = (task: Task, lists: MissionList[]): TaskDetails => ({
+  text: task.text,
+  notes: task.notes ?? '',
+  dueDate: task.dueDate,
+  dueTime: task.dueTime,
+  priority: getPriority(task),
+  listId: getListId(task, lists),
+  assignee: task.assignee ?? '',
+  tagIds: task.tagIds ?? [],
+  recurrence: task.recurrence
+});
+
+export const applyTaskDetails = (task: Task, details: TaskDetails): Task => {
+  const {
+    notes: _notes,
+    dueDate: _dueDate,
+    dueTime: _dueTime,
+    assignee: _assignee,
+    recurrence: _recurrence,
+    ...rest
+  } = task;
+  const assignee = details.assignee.trim().replace(/^@/, '');
+
+  return {
+    ...rest,
+    text: details.text.trim(),
+    priority: details.priority,
+    listId: details.listId,
+    tagIds: details.tagIds,
+    ...(details.notes.trim() && { notes: details.notes }),
+    ...(details.dueDate && { dueDate: details.dueDate }),
+    ...(details.dueDate && details.dueTime && { dueTime: details.dueTime }),
+    ...(assignee && { assignee }),
+    ...(details.recurrence && { recurrence: details.recurrence })
+  };
+};
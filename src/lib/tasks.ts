@@ -0,0 +1,272 @@
+import { format, isToday, isTomorrow, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { RecurrenceRule, getNextDueDate } from '@/lib/recurrence';
+import { getActivityDay } from '@/lib/streaks';
+import { BossBattle } from '@/lib/boss';
+
+/**
+ * MODELO DE DADOS DAS MISSÕES
+ *
+ * Tipos e funções puras compartilhados pelos componentes.
+ * Nada aqui acessa o DOM ou o localStorage — apenas transforma dados.
+ */
+
+export type Priority = 'low' | 'normal' | 'high' | 'critical';
+
+// Passo de uma missão maior (sub-missão)
+export interface SubTask {
+  id: number;
+  text: string;
+  done: boolean;
+}
+
+export interface Task {
+  id: number;
+  text: string;
+  done: boolean;
+  createdAt: number;
+  dueDate?: string;      // Data limite no formato 'yyyy-MM-dd'
+  dueTime?: string;      // Horário opcional no formato 'HH:mm'
+  priority?: Priority;   // Ausente em dados antigos = 'normal'
+  tagIds?: number[];     // Ids das etiquetas (ver lib/tags.ts)
+  subtasks?: SubTask[];
+  autoComplete?: boolean; // Conclui a missão quando todas as sub-missões forem concluídas
+  completedAt?: number;   // Quando foi concluída (ausente se pendente)
+  completedDay?: string;  // Dia da conclusão no fuso de então, 'yyyy-MM-dd' (ver lib/streaks.ts)
+  recurrence?: RecurrenceRule;
+  seriesId?: number;            // Id da primeira missão de uma série recorrente
+  completionHistory?: number[]; // Conclusões anteriores da série (timestamps)
+  nextOccurrenceId?: number;    // Ocorrência gerada ao concluir esta missão
+  deletedAt?: number;           // Preenchido quando a missão está na lixeira
+  archivedAt?: number;          // Preenchido quando "Limpar concluídas" guarda a missão no arquivo
+  listId?: number;              // Lista (campanha) da missão; ausente = lista padrão (ver lib/lists.ts)
+  order?: number;               // Posição na ordem manual; ausente = createdAt (ver getManualOrder)
+  assignee?: string;            // Responsável, informado como "@nome" na adição rápida
+  notes?: string;               // Anotações em markdown (ver lib/markdown.ts)
+  updatedAt?: number;           // Última alteração (ausente = nunca alterada desde a criação)
+  xp?: number;                  // XP ganho ao concluir; ausente se pendente (ver lib/xp.ts)
+  boss?: BossBattle;            // Missão marcada como chefe (ver lib/boss.ts)
+}
+
+export type Filter = 'all' | 'pending' | 'completed' | 'overdue';
+
+export const FILTERS: Filter[] = ['all', 'pending', 'completed', 'overdue'];
+
+export type SortKey = 'manual' | 'created' | 'priority' | 'due' | 'alpha';
+
+export const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: 'manual', label: 'Manual' },
+  { key: 'created', label: 'Criação' },
+  { key: 'priority', label: 'Prioridade' },
+  { key: 'due', label: 'Prazo' },
+  { key: 'alpha', label: 'Alfabética' }
+];
+
+export const PRIORITY_OPTIONS: { key: Priority; label: string }[] = [
+  { key: 'critical', label: 'Crítica' },
+  { key: 'high', label: 'Alta' },
+  { key: 'normal', label: 'Normal' },
+  { key: 'low', label: 'Baixa' }
+];
+
+// Peso usado na ordenação: quanto maior, mais acima na lista
+export const PRIORITY_WEIGHT: Record<Priority, number> = {
+  critical: 3,
+  high: 2,
+  normal: 1,
+  low: 0
+};
+
+export const getPriority = (task: Task): Priority => task.priority ?? 'normal';
+
+export const isHighPriority = (task: Task): boolean =>
+  PRIORITY_WEIGHT[getPriority(task)] >= PRIORITY_WEIGHT.high;
+
+export const getSubtaskProgress = (task: Task): { done: number; total: number } => {
+  const subtasks = task.subtasks ?? [];
+  return {
+    done: subtasks.filter(sub => sub.done).length,
+    total: subtasks.length
+  };
+};
+
+// Fração concluída (0 a 1). Missões com sub-missões contam parcialmente.
+export const getTaskCompletion = (task: Task): number => {
+  if (task.done) return 1;
+  const { done, total } = getSubtaskProgress(task);
+  return total > 0 ? done / total : 0;
+};
+
+// Marca/desmarca a conclusão mantendo completedAt e completedDay coerentes
+export const setTaskDone = (task: Task, done: boolean, at: number = Date.now()): Task => {
+  if (done === task.done) return task;
+  if (done) return { ...task, done, completedAt: at, completedDay: getActivityDay(at) };
+  const { completedAt: _completedAt, completedDay: _completedDay, ...rest } = task;
+  return { ...rest, done };
+};
+
+/**
+ * Cria a próxima ocorrência de uma missão recorrente que acabou de ser concluída.
+ * A nova missão herda título, prioridade, etiquetas e passos (desmarcados),
+ * e carrega o histórico de conclusões da série.
+ */
+export const createNextOccurrence = (task: Task, id: number = Date.now()): Task | null => {
+  if (!task.recurrence || !task.completedAt) return null;
+
+  return {
+    id,
+    text: task.text,
+    done: false,
+    createdAt: id,
+    dueDate: getNextDueDate(task.recurrence, task.dueDate, task.completedAt),
+    ...(task.dueTime && { dueTime: task.dueTime }),
+    ...(task.priority && { priority: task.priority }),
+    ...(task.tagIds && { tagIds: [...task.tagIds] }),
+    ...(task.subtasks && {
+      subtasks: task.subtasks.map((sub, index) => ({ ...sub, id: id + index + 1, done: false }))
+    }),
+    ...(task.autoComplete && { autoComplete: true }),
+    ...(task.listId !== undefined && { listId: task.listId }),
+    ...(task.assignee && { assignee: task.assignee }),
+    ...(task.notes && { notes: task.notes }),
+    recurrence: task.recurrence,
+    seriesId: task.seriesId ?? task.id,
+    completionHistory: [...(task.completionHistory ?? []), task.completedAt]
+  };
+};
+
+/**
+ * Conclui ou reativa uma missão dentro da lista.
+ * - Concluir uma missão recorrente adiciona a próxima ocorrência ao final.
+ * - Reativar remove a ocorrência gerada, desde que ela ainda esteja pendente.
+ */
+export const updateTaskDone = (tasks: Task[], id: number, done: boolean, at: number = Date.now()): Task[] => {
+  const task = tasks.find(t => t.id === id);
+  if (!task || task.done === done) return tasks;
+
+  if (done) {
+    const completedTask = setTaskDone(task, true, at);
+    const nextOccurrence = createNextOccurrence(completedTask, at);
+    const newTasks = tasks.map(t =>
+      t.id === id
+        ? { ...completedTask, ...(nextOccurrence && { nextOccurrenceId: nextOccurrence.id }) }
+        : t
+    );
+    return nextOccurrence ? [...newTasks, nextOccurrence] : newTasks;
+  }
+
+  const reactivated = setTaskDone(task, false);
+  const spawned = tasks.find(t => t.id === task.nextOccurrenceId);
+  if (!spawned || spawned.done) {
+    return tasks.map(t => t.id === id ? reactivated : t);
+  }
+
+  const { nextOccurrenceId: _next, ...unlinked } = reactivated;
+  return tasks
+    .filter(t => t.id !== spawned.id)
+    .map(t => t.id === id ? unlinked : t);
+};
+
+// Momento exato em que a missão vence.
+// Sem horário definido, a missão vale até o fim do dia.
+export const getDueTimestamp = (task: Task): number | null => {
+  if (!task.dueDate) return null;
+
+  const date = parseISO(task.dueDate);
+  if (isNaN(date.getTime())) return null;
+
+  if (task.dueTime) {
+    const [hours, minutes] = task.dueTime.split(':').map(Number);
+    date.setHours(hours || 0, minutes || 0, 0, 0);
+  } else {
+    date.setHours(23, 59, 59, 999);
+  }
+  return date.getTime();
+};
+
+export const isOverdue = (task: Task, now: number = Date.now()): boolean => {
+  if (task.done) return false;
+  const due = getDueTimestamp(task);
+  return due !== null && due < now;
+};
+
+// Texto curto exibido no chip de prazo: "Hoje 18:00", "Amanhã", "12 de mar."
+export const formatDue = (dueDate: string, dueTime?: string): string => {
+  const date = parseISO(dueDate);
+  if (isNaN(date.getTime())) return dueDate;
+
+  const day = isToday(date)
+    ? 'Hoje'
+    : isTomorrow(date)
+      ? 'Amanhã'
+      : format(date, "d 'de' MMM", { locale: ptBR });
+
+  return dueTime ? `${day} ${dueTime}` : day;
+};
+
+// ORDENAÇÃO - retorna uma nova lista, nunca altera o array recebido.
+// Empates sempre caem na ordem de criação para a lista não "pular".
+export const sortTasks = (tasks: Task[], sortKey: SortKey): Task[] => {
+  const byCreation = (a: Task, b: Task) => a.createdAt - b.createdAt;
+
+  return [...tasks].sort((a, b) => {
+    switch (sortKey) {
+      case 'priority':
+        return PRIORITY_WEIGHT[getPriority(b)] - PRIORITY_WEIGHT[getPriority(a)] || byCreation(a, b);
+      case 'due': {
+        // Missões sem prazo vão para o final
+        const dueA = getDueTimestamp(a) ?? Infinity;
+        const dueB = getDueTimestamp(b) ?? Infinity;
+        if (dueA !== dueB) return dueA < dueB ? -1 : 1;
+        return byCreation(a, b);
+      }
+      case 'alpha':
+        return a.text.localeCompare(b.text, 'pt-BR', { sensitivity: 'base' }) || byCreation(a, b);
+      case 'manual':
+        return getManualOrder(a) - getManualOrder(b) || byCreation(a, b);
+      default:
+        return byCreation(a, b);
+    }
+  });
+};
+
+// ORDEM MANUAL - sem `order` salvo, a missão fica na posição de criação
+export const getManualOrder = (task: Task): number => task.order ?? task.createdAt;
+
+/**
+ * Move uma missão para `toIndex` dentro de `sequence` (a lista exibida, já em
+ * ordem manual e possivelmente filtrada). Só a missão movida recebe um novo
+ * `order`, entre o das vizinhas; missões ocultas pelo filtro não mudam.
+ */
+export const moveTaskTo = (tasks: Task[], sequence: Task[], id: number, toIndex: number): Task[] => {
+  const rest = sequence.filter(task => task.id !== id);
+  const before = rest[toIndex - 1];
+  const after = rest[toIndex];
+  const order = before && after
+    ? (getManualOrder(before) + getManualOrder(after)) / 2
+    : before
+      ? getManualOrder(before) + 1
+      : after
+        ? getManualOrder(after) - 1
+        : undefined;
+  if (order === undefined) return tasks;
+
+  // Depois de muitas divisões o meio pode coincidir com uma vizinha: renumera tudo e tenta de novo
+  if ((before && order === getManualOrder(before)) || (after && order === getManualOrder(after))) {
+    const renumbered = new Map(sortTasks(tasks, 'manual').map((task, index) => [task.id, index]));
+    const withOrder = (task: Task) => ({ ...task, order: renumbered.get(task.id) });
+    return moveTaskTo(tasks.map(withOrder), sequence.map(withOrder), id, toIndex);
+  }
+
+  return tasks.map(task => task.id === id ? { ...task, order } : task);
+};
+
+// Marca Task.updatedAt nas missões alteradas. Como toda alteração cria um
+// novo objeto Task, basta comparar as referências com a lista anterior.
+export const touchChangedTasks = (previous: Task[], next: Task[], at: number = Date.now()): Task[] => {
+  const previousById = new Map(previous.map(task => [task.id, task]));
+  return next.map(task => {
+    const before = previousById.get(task.id);
+    return before && before !== task ? { ...task, updatedAt: at } : task;
+  });
+};
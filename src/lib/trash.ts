@@ -0,0 +1,41 @@
+import { Task } from '@/lib/tasks';
+
+/**
+ * LIXEIRA
+ *
+ * Excluir uma missão apenas preenche Task.deletedAt; ela continua salva
+ * (e sincronizada entre abas) até ser restaurada, apagada de vez ou
+ * expirar o prazo de retenção.
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 0 = nunca apagar automaticamente
+export const TRASH_RETENTION_OPTIONS: { days: number; label: string }[] = [
+  { days: 7, label: '7 dias' },
+  { days: 14, label: '14 dias' },
+  { days: 30, label: '30 dias' },
+  { days: 90, label: '90 dias' },
+  { days: 0, label: 'Nunca' }
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (task: Task): boolean => task.deletedAt !== undefined;
+
+export const moveToTrash = (task: Task, at: number = Date.now()): Task => ({ ...task, deletedAt: at });
+
+export const restoreFromTrash = (task: Task): Task => {
+  const { deletedAt: _deletedAt, ...rest } = task;
+  return rest;
+};
+
+// Momento em que a missão será apagada de vez (null se a retenção for "Nunca")
+export const getPurgeAt = (task: Task, retentionDays: number): number | null =>
+  task.deletedAt !== undefined && retentionDays > 0 ? task.deletedAt + retentionDays * DAY_MS : null;
+
+// Remove da lista as missões cuja retenção na lixeira já venceu
+export const purgeExpiredTrash = (tasks: Task[], retentionDays: number, now: number = Date.now()): Task[] =>
+  tasks.filter(task => {
+    const purgeAt = getPurgeAt(task, retentionDays);
+    return purgeAt === null || purgeAt > now;
+  });
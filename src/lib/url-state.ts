@@ -0,0 +1,42 @@
+import { FILTERS, Filter, SORT_OPTIONS, SortKey } from '@/lib/tasks';
+
+/**
+ * ESTADO DA TELA NA URL
+ *
+ * Lista (/lists/:id), filtro (?filter=), ordenação (?sort=) e busca (?q=)
+ * ficam na URL: qualquer combinação pode ser salva nos favoritos ou
+ * compartilhada, e voltar/avançar no navegador percorre as mudanças.
+ * Valores padrão não aparecem na URL.
+ */
+export const DEFAULT_FILTER: Filter = 'all';
+export const DEFAULT_SORT_KEY: SortKey = 'manual';
+
+export const parseFilterParam = (value: string | null): Filter =>
+  FILTERS.includes(value as Filter) ? (value as Filter) : DEFAULT_FILTER;
+
+export const parseSortParam = (value: string | null): SortKey =>
+  SORT_OPTIONS.some(option => option.key === value) ? (value as SortKey) : DEFAULT_SORT_KEY;
+
+// Aplica as mudanças sem alterar o original; null (ou o valor padrão) remove o parâmetro
+export const withParams = (params: URLSearchParams, changes: Record<string, string | null>): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  Object.entries(changes).forEach(([key, value]) => {
+    const isDefault = (key === 'filter' && value === DEFAULT_FILTER) || (key === 'sort' && value === DEFAULT_SORT_KEY);
+    if (value && !isDefault) next.set(key, value);
+    else next.delete(key);
+  });
+  return next;
+};
+
+// Filtro e ordenação acompanham a troca de lista; a busca fica para trás
+export const getListSearch = (params: URLSearchParams): string => {
+  const kept = new URLSearchParams();
+  ['filter', 'sort'].forEach(key => {
+    const value = params.get(key);
+    if (value) kept.set(key, value);
+  });
+  const search = kept.toString();
+  return search ? `?${search}` : '';
+};
+
+export const getMissionPath = (id: number): string => `/missions/${id}`;
@@ -0,0 +1,93 @@
+import { Priority, Task, getPriority, getSubtaskProgress } from '@/lib/tasks';
+import { isTrashed } from '@/lib/trash';
+import { HeroClass } from '@/lib/profile';
+import { getBossBonusXp } from '@/lib/boss';
+
+/**
+ * EXPERIÊNCIA (XP) E NÍVEIS DO HERÓI
+ *
+ * O XP não é um contador separado: é a soma do Task.xp das missões
+ * concluídas que não estão na lixeira. Assim reativar, excluir, desfazer
+ * ou sincronizar com outra aba sempre devolve o total correto, e concluir
+ * e reativar a mesma missão várias vezes não acumula pontos.
+ *
+ * O valor é calculado e gravado na missão no momento da conclusão
+ * (settleTaskXp): mudar a prioridade depois não altera o que já foi ganho.
+ * Missões arquivadas continuam valendo — o arquivo é o registro das conquistas.
+ * O bônus da classe do herói (ver lib/profile) e o de chefe derrotado
+ * (ver lib/boss) também entram nesse momento.
+ */
+export const XP_BY_PRIORITY: Record<Priority, number> = {
+  low: 5,
+  normal: 10,
+  high: 20,
+  critical: 40
+};
+
+// Dificuldade: cada sub-missão vale um pouco mais, até um limite
+export const XP_PER_SUBTASK = 2;
+const MAX_SUBTASK_BONUS = 10;
+
+export const getTaskXp = (task: Task, heroClass?: HeroClass): number => {
+  const base = XP_BY_PRIORITY[getPriority(task)] + Math.min(getSubtaskProgress(task).total, MAX_SUBTASK_BONUS) * XP_PER_SUBTASK;
+  return Math.round(base * (heroClass?.xpMultiplier(task) ?? 1)) + getBossBonusXp(task);
+};
+
+const settleXp = (task: Task, heroClass?: HeroClass): Task => {
+  if (task.done && task.xp === undefined) return { ...task, xp: getTaskXp(task, heroClass) };
+  if (!task.done && task.xp !== undefined) {
+    const { xp: _xp, ...rest } = task;
+    return rest;
+  }
+  return task;
+};
+
+// Grava o XP nas missões recém-concluídas e o remove das reativadas.
+// Só olha as missões alteradas (objeto diferente da lista anterior)
+export const settleTaskXp = (previous: Task[], next: Task[], heroClass?: HeroClass): Task[] => {
+  const previousById = new Map(previous.map(task => [task.id, task]));
+  return next.map(task => previousById.get(task.id) === task ? task : settleXp(task, heroClass));
+};
+
+// Missões concluídas antes deste sistema (sem Task.xp) valem pelo cálculo atual
+export const getTotalXp = (tasks: Task[]): number =>
+  tasks
+    .filter(task => task.done && !isTrashed(task))
+    .reduce((total, task) => total + (task.xp ?? getTaskXp(task)), 0);
+
+/**
+ * Curva de níveis: passar do nível N para o N+1 custa N × 100 XP.
+ * Nível 1 = 0 XP, 2 = 100, 3 = 300, 4 = 600, 5 = 1000...
+ */
+export const getXpForLevel = (level: number): number => 50 * level * (level - 1);
+
+export interface LevelInfo {
+  level: number;
+  xp: number;
+  levelStartXp: number;   // XP total em que o nível atual começou
+  nextLevelXp: number;    // XP total necessário para o próximo nível
+  progress: number;       // 0 a 1 dentro do nível atual
+}
+
+export const getLevelInfo = (xp: number): LevelInfo => {
+  // Inverso de getXpForLevel; o laço corrige arredondamentos da raiz
+  let level = Math.max(1, Math.floor((1 + Math.sqrt(1 + (8 * xp) / 100)) / 2));
+  while (getXpForLevel(level + 1) <= xp) level++;
+  while (level > 1 && getXpForLevel(level) > xp) level--;
+
+  const levelStartXp = getXpForLevel(level);
+  const nextLevelXp = getXpForLevel(level + 1);
+  return { level, xp, levelStartXp, nextLevelXp, progress: (xp - levelStartXp) / (nextLevelXp - levelStartXp) };
+};
+
+const LEVEL_TITLES: { level: number; title: string }[] = [
+  { level: 1, title: 'Recruta' },
+  { level: 3, title: 'Aventureiro' },
+  { level: 5, title: 'Veterano' },
+  { level: 10, title: 'Campeão' },
+  { level: 15, title: 'Herói' },
+  { level: 20, title: 'Lenda' }
+];
+
+export const getLevelTitle = (level: number): string =>
+  [...LEVEL_TITLES].reverse().find(entry => level >= entry.level)?.title ?? LEVEL_TITLES[0].title;
@@ -1,7 +1,25 @@
+import { useMatch, useParams } from 'react-router-dom';
 import TodoHeroes from '@/components/TodoHeroes';
 
+// Todas as rotas usam esta página, então o TodoHeroes continua montado ao navegar
+// (sem recarregar dados nem perder o estado da tela)
 const Index = () => {
-  return <TodoHeroes />;
+  const { listId } = useParams();
+  const isArchive = useMatch('/archive');
+  const isTrash = useMatch('/trash');
+  const isTrophies = useMatch('/trophies');
+  const isProfile = useMatch('/profile');
+  const missionMatch = useMatch('/missions/:missionId');
+  const view = isArchive ? 'archive' : isTrash ? 'trash' : isTrophies ? 'trophies' : isProfile ? 'profile' : 'missions';
+  const missionId = missionMatch ? Number(missionMatch.params.missionId) : undefined;
+
+  return (
+    <TodoHeroes
+      view={view}
+      listId={listId !== undefined ? Number(listId) : undefined}
+      missionId={missionId}
+    />
+  );
 };
 
 export default Index;